@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ModelMessage } from "ai";
+import { createAgent, type Protocol } from "./agent";
+import { createScriptedModel, type ScriptedTurn } from "./fake-model";
+import { createWorkspace } from "./workspace";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "agent-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function startAgent(protocol: Protocol, turns: ScriptedTurn[], maxSteps = 5) {
+  const model = createScriptedModel(turns);
+  const agent = createAgent({
+    model,
+    summarizer: createScriptedModel([]),
+    protocol,
+    maxSteps,
+    workspace: createWorkspace(dir),
+  });
+  return { model, agent };
+}
+
+// toolCallId of every tool-result in the conversation
+function toolResultIds(messages: ModelMessage[]) {
+  return messages.flatMap((message) =>
+    message.role === "tool" ? message.content.map((part) => part.toolCallId) : []
+  );
+}
+
+describe("xml protocol", () => {
+  test("runs the tags of a reply and sends the results back", async () => {
+    const { model, agent } = startAgent("xml", [
+      'Writing it.\n<writefile file="hello.txt">\nhello\n</writefile>',
+      '<readfile file="hello.txt" />',
+      "Done, hello.txt says hello.",
+    ]);
+
+    const outcome = await agent.runAgent("Create hello.txt");
+
+    expect(outcome.status).toBe("done");
+    expect(outcome.steps).toBe(3);
+    expect(outcome.text).toBe("Done, hello.txt says hello.");
+    expect(outcome.toolCalls.map((tool) => tool.name)).toEqual(["writefile", "readfile"]);
+    expect(await Bun.file(join(dir, "hello.txt")).text()).toBe("hello\n");
+    expect(JSON.stringify(model.calls[2])).toContain("1| hello");
+    expect(model.remainingTurns()).toBe(0);
+  });
+
+  test("stops at the step limit", async () => {
+    const { model, agent } = startAgent("xml", ["<ls />", "<ls />", "<ls />"], 2);
+
+    const outcome = await agent.runAgent("List forever");
+
+    expect(outcome.status).toBe("step-limit");
+    expect(outcome.steps).toBe(2);
+    expect(model.remainingTurns()).toBe(1);
+  });
+});
+
+describe("native protocol", () => {
+  test("runs tool calls and answers each one with a tool result", async () => {
+    const { model, agent } = startAgent("native", [
+      { text: "Writing it.", toolCalls: [{ toolName: "writefile", input: { file: "hello.txt", content: "hello\n" } }] },
+      { toolCalls: [{ toolName: "readfile", input: { file: "hello.txt" } }] },
+      "Done.",
+    ]);
+
+    const outcome = await agent.runAgent("Create hello.txt");
+
+    expect(outcome.status).toBe("done");
+    expect(outcome.steps).toBe(3);
+    expect(outcome.toolCalls.map((tool) => tool.name)).toEqual(["writefile", "readfile"]);
+    expect(await Bun.file(join(dir, "hello.txt")).text()).toBe("hello\n");
+    expect(toolResultIds(agent.messages)).toEqual(["call_1", "call_2"]);
+    expect(model.remainingTurns()).toBe(0);
+  });
+
+  test("answers an invalid call exactly once", async () => {
+    const { agent } = startAgent("native", [
+      { toolCalls: [{ toolName: "readfile", input: { path: "hello.txt" } }, { toolName: "ls", input: {} }] },
+      "Done.",
+    ]);
+
+    const outcome = await agent.runAgent("Read hello.txt");
+
+    expect(outcome.status).toBe("done");
+    expect(outcome.toolCalls.map((tool) => tool.name)).toEqual(["ls"]);
+    expect(toolResultIds(agent.messages).sort()).toEqual(["call_1", "call_2"]);
+  });
+
+  test("stopping the turn kills the running command and answers the other calls", async () => {
+    const { agent } = startAgent("native", [
+      { toolCalls: [{ toolName: "bash", input: { command: "sleep 30" } }, { toolName: "ls", input: {} }] },
+    ]);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("stopped")), 300);
+    const start = performance.now();
+
+    await expect(agent.runAgent("Wait", controller.signal)).rejects.toThrow("stopped");
+
+    expect(performance.now() - start).toBeLessThan(5000);
+    expect(toolResultIds(agent.messages)).toEqual(["call_1", "call_2"]);
+  });
+
+  test("stops at the step limit", async () => {
+    const { agent } = startAgent("native", [{ toolCalls: [{ toolName: "ls", input: {} }] }], 1);
+
+    const outcome = await agent.runAgent("List");
+
+    expect(outcome.status).toBe("step-limit");
+    expect(outcome.steps).toBe(1);
+  });
+});
@@ -0,0 +1,669 @@
+import {
+  ModelMessage,
+  streamText,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from "ai";
+import { createToolTagStream, formatParseError } from "./tool-parser";
+import { nativeTools, toToolParams } from "./native-tools";
+import {
+  defaultBashConfig,
+  executeTool,
+  parseTools,
+  toolTagSpecs,
+  type BashConfig,
+  type ToolContext,
+  type ToolResult,
+  type ToolType,
+} from "./tools";
+import { allowAllPermissions, type Permissions } from "./permissions";
+import { createWorkspace, type Workspace } from "./workspace";
+import { createCheckpointStore } from "./checkpoints";
+import { createReadTracker } from "./read-tracker";
+import { createSearchIndex } from "./search-index";
+import { createScratchDir, defaultOutputConfig, type OutputConfig } from "./output-policy";
+import { modelName, type Session } from "./sessions";
+import { createInstructionLoader, formatInstructions, type InstructionFile } from "./instructions";
+import {
+  compactMessages,
+  defaultContextConfig,
+  estimateTotalTokens,
+  resolveContextBudget,
+  type ContextBudget,
+} from "./context";
+
+export type Protocol = "xml" | "native";
+
+export type AgentOptions = {
+  model: LanguageModel;
+  summarizer: LanguageModel;
+  protocol: Protocol;
+  // Maximum number of model calls per user message
+  maxSteps: number;
+  // Everything is allowed when omitted
+  permissions?: Permissions;
+  // Where the tools can work, defaults to the current directory
+  workspace?: Workspace;
+  bash?: BashConfig;
+  // Context window of the model, older turns are compacted past 80% of it
+  context?: ContextBudget;
+  // Per-tool size of the outputs sent to the model
+  output?: OutputConfig;
+  // Saved after every step, its earlier messages are loaded back
+  session?: Session;
+};
+
+export type Agent = ReturnType<typeof createAgent>;
+
+export type AgentOutcome = {
+  status: "done" | "step-limit";
+  steps: number;
+  // Text of the last model reply
+  text: string;
+  toolCalls: ToolType[];
+  usage: { inputTokens: number; outputTokens: number };
+};
+
+type StepResult = {
+  text: string;
+  toolCalls: ToolType[];
+  usage: LanguageModelUsage;
+  hasToolResults: boolean;
+};
+
+const xmlToolsPrompt = `## Tools
+
+### Tools "readfile"
+
+This tool enable you to read any file in the current directory.
+
+Usage :
+<readfile file="filename.txt" />
+<readfile file="filename.txt" offset="200" limit="100" />
+
+Params :
+file : the path to the file you want to read
+offset : the line number to start reading from, starting at 1 (optional)
+limit : the maximum number of lines to read, defaults to 2000 (optional)
+
+Lines come back prefixed with their number, like "12| const a = 1;". The prefix is not part of the file, never copy it into writefile or edit. Binary and very large files return their size instead of their content.
+
+### Tools "writefile"
+
+This tool enable you to write to any file in the current directory.
+
+Usage :
+<writefile file="filename.txt" content="new content here" />
+<writefile file="filename.txt">
+new content here
+on multiple lines
+</writefile>
+
+Params :
+file : the path to the file you want to write to. You always need to FIRST read an existing file before writing to it, writes to files not read or changed since the last read are refused.
+content : the content you want to write to the file, if you need to use " inside the content, please use \\". Prefer the body form for multi-line content, it is written as-is (wrap it in <![CDATA[ ... ]]> if it contains "</writefile>").
+
+### Tools "edit"
+
+This tool enable you to replace an exact string in a file, without rewriting the whole file. Prefer it over writefile to change existing files.
+
+Usage :
+<edit file="app.js">
+<old>
+  console.log("hello");
+</old>
+<new>
+  console.log("hello world");
+</new>
+</edit>
+<edit file="app.js" old="oldName" new="newName" replace_all="true" />
+
+Params :
+file : the path to the file you want to edit. You always need to FIRST read the file before editing it.
+old : the exact text to replace, including whitespace and indentation. It must match only once, add surrounding lines to make it unique.
+new : the text to replace it with
+As attributes, old and new are taken literally, "\\n" stays a backslash and an "n": use the <old> and <new> elements for text spanning several lines.
+replace_all : set to "true" to replace every match (optional)
+
+### Tools "apply_patch"
+
+This tool enable you to change several files at once with a unified diff. Every hunk is checked against the current files first: if one does not match, nothing is changed and the failing hunks are reported. Prefer it over several writefile or edit calls for changes spanning many files.
+
+Usage :
+<apply_patch>
+--- a/src/math.js
++++ b/src/math.js
+@@ -1,3 +1,3 @@
+ export function add(a, b) {
+-  return a - b;
++  return a + b;
+ }
+--- /dev/null
++++ b/src/constants.js
+@@ -0,0 +1 @@
++export const ZERO = 0;
+</apply_patch>
+
+Params :
+patch : the unified diff, with "--- a/path" and "+++ b/path" headers for each file and "@@" hunks with a few unchanged context lines around each change. Use /dev/null as the old path to create a file and as the new path to delete one. You always need to FIRST read every existing file the patch changes. Line numbers in "@@" headers are only hints, a bare "@@" works too. Wrap it in <![CDATA[ ... ]]> if it contains "</apply_patch>".
+
+### Tools "bash"
+
+This tool enable you to run any bash command. You get stdout and stderr, the exit code and the duration.
+
+Usage :
+<bash command="ls -la" />
+<bash command="bun test" timeout="300" />
+
+Params :
+command : the bash command you want to run
+timeout : the maximum duration in seconds before the command is killed (optional, defaults to 120, up to 600)
+
+Important:
+You don't run any HARMFUL command, like rm -rf /, etc.
+
+### Tools "get_tweet"
+
+This tool enable you to get a tweet from a user.
+
+Usage :
+<get_tweet tweet_id="1234567890" />
+
+Params :
+tweet_id : the id of the tweet you want to get
+
+### Tools "grep"
+
+This tool enable you to search for a regular expression in the files of a directory. Files ignored by git are skipped.
+
+Usage :
+<grep pattern="search_term" />
+<grep pattern="function \\w+Total" dir="src" include="*.ts" context="2" />
+<grep pattern="todo" ignore_case="true" files_only="true" />
+
+Params :
+pattern : the JavaScript regular expression you want to search for
+dir : the directory to search in (optional, defaults to current directory)
+ignore_case : set to "true" for a case-insensitive search (optional)
+context : the number of lines to show before and after each match, up to 10 (optional)
+include : only search files matching this glob, like "*.ts" or "src/**/*.test.ts" (optional)
+exclude : skip files matching this glob (optional)
+max_results : the maximum number of matches, defaults to 100 (optional)
+files_only : set to "true" to only list the matching files (optional)
+
+### Tools "glob"
+
+This tool enable you to search for files by pattern. Files ignored by git are skipped.
+
+Usage :
+<glob pattern="*.js" />
+<glob pattern="src/**/*.test.ts" exclude="*.snap" />
+
+Params :
+pattern : the glob pattern you want to search for (supports *, **, ?, [] and {a,b}). Without "/" it matches file names, otherwise paths relative to dir.
+dir : the directory to search in (optional, defaults to current directory)
+exclude : skip files matching this glob (optional)
+max_results : the maximum number of files, defaults to 100 (optional)
+
+### Tools "search"
+
+This tool enable you to search the workspace files by words, ranked by relevance. Identifiers are split, so "format file size" finds formatFileSize. Use it when you do not know the exact name, and grep when you do.
+
+Usage :
+<search query="where are file sizes formatted" />
+<search query="bash timeout kill" max_results="5" />
+
+Params :
+query : the words you are looking for
+max_results : the maximum number of results, defaults to 10 (optional)
+
+### Tools "outline"
+
+This tool enable you to list the top-level functions, classes, interfaces, types and variables of a TypeScript or JavaScript file, with their line ranges and the public members of classes. Use it to find your way in a file, then readfile with offset and limit to read only the part you need.
+
+Usage :
+<outline file="src/agent.ts" />
+
+Params :
+file : the path to the file you want to outline
+
+### Tools "find_symbol"
+
+This tool enable you to find where a function, class, interface, type, variable or method is declared in the TypeScript and JavaScript files, including functions nested in other functions.
+
+Usage :
+<find_symbol name="createAgent" />
+<find_symbol name="runAgent" dir="src" />
+
+Params :
+name : the exact name of the symbol
+dir : the directory to search in (optional, defaults to current directory)
+max_results : the maximum number of declarations, defaults to 100 (optional)
+
+### Tools "webfetch"
+
+This tool enable you to fetch a webpage, convert it to markdown, and get an AI summary based on a specific prompt.
+
+Usage :
+<webfetch url="https://example.com" prompt="Summarize the main points about AI" />
+
+Params :
+url : the URL of the webpage you want to fetch and analyze
+prompt : the specific question or instruction for summarizing the content
+
+### Tools "ls"
+
+This tool enable you to list files and directories in a beautiful tree structure with configurable depth.
+
+Usage :
+<ls path="./src" depth="2" />
+<ls path="." />
+<ls />
+
+Params :
+path : the directory path to list (optional, defaults to current directory ".")
+depth : the maximum depth of recursion (optional, defaults to 3)
+
+
+
+Attributes can be given in any order, with double or single quotes. Inside a value, escape the quote with a backslash or use &quot;, &lt;, &gt;, &amp;.`;
+
+const workflowPrompt = `## Workflow
+
+When the user ask you a question, you can decide between : 
+
+* reply to the question
+* use any tools, please reply with ONLY ONE TOOL USAGE.
+
+In case you use a tools, you should ONLY return the tools usage.
+
+## Examples
+
+<bad-example>
+<user>Add logs inside app.js</user>
+<assistant>Ok, i will remove logs. ReadFile(app.js)</assistant>
+</bad-example>
+
+<good-example>
+<user>Add logs inside app.js</user>
+<assistant>ReadFile(app.js)</assistant>
+</good-example>`;
+
+// Long values like file contents are already in the assistant message, no need to repeat them
+function formatToolParams(params: Record<string, string>) {
+  const short = Object.entries(params).map(([key, value]) => [
+    key,
+    value.length > 200 ? `${value.slice(0, 80)}... (${value.length} characters)` : value,
+  ]);
+
+  return JSON.stringify(Object.fromEntries(short));
+}
+
+export function buildSystemPrompt(protocol: Protocol, instructions: InstructionFile[] = []) {
+  return [
+    `You are a Coding Assistant named "MelvynCode" that SHOULD use the following tools when needed : `,
+    ...(protocol === "xml" ? [xmlToolsPrompt] : []),
+    workflowPrompt,
+    ...(instructions.length > 0 ? [formatInstructions(instructions)] : []),
+  ].join("\n\n");
+}
+
+export function createAgent(options: AgentOptions) {
+  const messages: Array<ModelMessage> = [
+    {
+      role: "system",
+      content: buildSystemPrompt(options.protocol),
+    },
+  ];
+
+  const baseWorkspace = options.workspace ?? createWorkspace(process.cwd());
+  const scratch = createScratchDir();
+  // The model reads cut outputs back from the scratch directory
+  const workspace = createWorkspace(baseWorkspace.root, [...baseWorkspace.allowedDirs, scratch.dir]);
+  const searchIndex = createSearchIndex(workspace.root);
+  // Built in the background, the search tool refreshes it again before searching
+  searchIndex.refresh().catch((error) => {
+    console.log(`❌ Search index not built: ${(error as Error).message}`);
+  });
+
+  // Both can be switched during a session with setModel
+  let model = options.model;
+  let contextBudget = options.context ?? resolveContextBudget(defaultContextConfig, "");
+  // User prompts, the turn boundaries for compaction
+  const prompts = new Set<ModelMessage>();
+  const instructions = createInstructionLoader(workspace.root);
+  let instructionsLoaded = false;
+  // Checkpoint turn of each prompt of this process, resumed prompts have none
+  const promptTurns = new Map<ModelMessage, number>();
+  // Tokens used by the agent model calls, per model name
+  const usage = new Map<string, { inputTokens: number; outputTokens: number }>();
+  // The session file is rewritten from scratch after messages were compacted or removed
+  let rewriteSession = false;
+
+  for (const { message, prompt } of options.session?.history ?? []) {
+    messages.push(message);
+    if (prompt) prompts.add(message);
+  }
+
+  const toolContext: ToolContext = {
+    summarizer: options.summarizer,
+    permissions: options.permissions ?? allowAllPermissions,
+    workspace,
+    bash: options.bash ?? defaultBashConfig,
+    checkpoints: createCheckpointStore(),
+    reads: createReadTracker(),
+    searchIndex,
+    output: options.output ?? defaultOutputConfig,
+    scratch,
+  };
+
+  /**
+   * One step is one model call, followed by the tool calls of its reply.
+   * Aborting `signal` stops the model stream and the running bash command,
+   * the turn then throws the abort reason.
+   */
+  async function runAgent(userInput: string, signal?: AbortSignal): Promise<AgentOutcome> {
+    const prompt: ModelMessage = { role: "user", content: userInput };
+    messages.push(prompt);
+    prompts.add(prompt);
+    promptTurns.set(prompt, toolContext.checkpoints.startTurn(userInput));
+
+    const outcome: AgentOutcome = {
+      status: "step-limit",
+      steps: 0,
+      text: "",
+      toolCalls: [],
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+
+    try {
+      while (outcome.steps < options.maxSteps) {
+        await reloadInstructions();
+        await compactIfNeeded();
+
+        const step =
+          options.protocol === "native" ? await runNativeStep(signal) : await runXmlStep(signal);
+
+        outcome.steps++;
+        outcome.text = step.text;
+        outcome.toolCalls.push(...step.toolCalls);
+        outcome.usage.inputTokens += step.usage.inputTokens ?? 0;
+        outcome.usage.outputTokens += step.usage.outputTokens ?? 0;
+        addUsage(step.usage);
+        await saveSession();
+        signal?.throwIfAborted();
+
+        if (!step.hasToolResults) {
+          outcome.status = "done";
+          return outcome;
+        }
+      }
+    } finally {
+      // Keeps the prompt and finished tool calls when a model call fails
+      await saveSession();
+    }
+
+    console.log(`⏹️ Stopped: step limit reached (${options.maxSteps} steps)`);
+    return outcome;
+  }
+
+  function addUsage(stepUsage: LanguageModelUsage) {
+    const name = modelName(model);
+    const total = usage.get(name) ?? { inputTokens: 0, outputTokens: 0 };
+    total.inputTokens += stepUsage.inputTokens ?? 0;
+    total.outputTokens += stepUsage.outputTokens ?? 0;
+    usage.set(name, total);
+  }
+
+  // Forgets the conversation, only the system prompt stays
+  async function clear() {
+    messages.splice(1);
+    prompts.clear();
+    rewriteSession = true;
+    await saveSession();
+  }
+
+  /**
+   * Removes the last user turn from the conversation and rewinds the files it
+   * changed. Turns resumed from a session have no checkpoints, only their
+   * messages are removed.
+   */
+  async function undoLastTurn() {
+    const index = messages.findLastIndex((message) => prompts.has(message));
+    if (index === -1) throw new Error("Nothing to undo");
+
+    const prompt = messages[index];
+    const turn = promptTurns.get(prompt);
+    const restored = turn === undefined ? [] : await toolContext.checkpoints.rewindTo(turn);
+
+    messages.splice(index);
+    prompts.delete(prompt);
+    rewriteSession = true;
+    await saveSession();
+
+    return { prompt: typeof prompt.content === "string" ? prompt.content : "", restored, hadCheckpoints: turn !== undefined };
+  }
+
+  function setModel(newModel: LanguageModel, budget: ContextBudget) {
+    model = newModel;
+    contextBudget = budget;
+  }
+
+  async function saveSession() {
+    if (!options.session) return;
+
+    try {
+      await options.session.save(messages, {
+        reset: rewriteSession,
+        model: modelName(model),
+        isPrompt: (message) => prompts.has(message),
+      });
+      rewriteSession = false;
+    } catch (error) {
+      console.log(`❌ Session not saved: ${(error as Error).message}`);
+    }
+  }
+
+  // AGENT.md files can change during a session, the agent itself may edit them
+  async function reloadInstructions() {
+    const files = await instructions.load();
+    if (!files) return;
+
+    messages[0] = { role: "system", content: buildSystemPrompt(options.protocol, files) };
+
+    const paths = files.map((file) => file.path).join(", ");
+    if (instructionsLoaded) console.log(`📝 Instructions reloaded${paths ? ` from ${paths}` : ", no AGENT.md left"}`);
+    else if (paths) console.log(`📝 Instructions loaded from ${paths}`);
+    instructionsLoaded = true;
+  }
+
+  async function compactIfNeeded() {
+    const result = await compactMessages(messages, contextBudget, options.summarizer, (message) =>
+      prompts.has(message)
+    );
+    if (!result) return;
+
+    messages.splice(0, messages.length, ...result.messages);
+    rewriteSession = true;
+
+    const details = [
+      result.elidedOutputs > 0 ? `${result.elidedOutputs} old tool outputs elided` : "",
+      result.summarizedMessages > 0 ? `${result.summarizedMessages} earlier messages summarized` : "",
+    ].filter(Boolean);
+    console.log(
+      `🗜️ Context compacted: ~${result.tokensBefore} → ~${result.tokensAfter} tokens of ${contextBudget.maxTokens} (${details.join(", ")})`
+    );
+  }
+
+  async function runXmlStep(signal?: AbortSignal): Promise<StepResult> {
+    const stream = streamText({
+      model,
+      messages: messages,
+      abortSignal: signal,
+    });
+
+    // Tags are reported as soon as they are complete, they run once the reply is done
+    const toolStream = createToolTagStream(toolTagSpecs);
+    process.stdout.write("AI: ");
+
+    for await (const part of stream.fullStream) {
+      if (part.type === "error") {
+        throw part.error;
+      }
+
+      if (part.type !== "text-delta") {
+        continue;
+      }
+
+      process.stdout.write(part.text);
+
+      for (const tool of toolStream.push(part.text)) {
+        process.stdout.write(`\n🔨 [${tool.name}] Detected\n`);
+      }
+    }
+
+    process.stdout.write("\n");
+    // An aborted stream ends early, its partial reply is dropped
+    signal?.throwIfAborted();
+
+    const text = await stream.text;
+    messages.push({ role: "assistant", content: text });
+
+    const { tools, errors } = parseTools(text);
+
+    for (const error of errors) {
+      const errorMsg = formatParseError(error);
+      console.log(`❌ [${error.name}] ${errorMsg}`);
+
+      messages.push({
+        role: "user",
+        content: `<tool name="${error.name}" error="true">${errorMsg}</tool>`,
+      });
+    }
+
+    for (const tool of tools) {
+      // The tags after a stopped command are not run
+      if (signal?.aborted) break;
+
+      console.log(`🔨 [${tool.name}] Executing...`);
+      const result = await executeTool(tool, { ...toolContext, signal });
+
+      // Display clean output to user
+      console.log(`🔨 [${tool.name}] ${result.userOutput}`);
+
+      // Send detailed output to AI
+      messages.push({
+        role: "user",
+        content: `<tool name="${tool.name}" params="${formatToolParams(
+          tool.params
+        )}">${result.aiOutput}</tool>`,
+      });
+    }
+
+    return {
+      text,
+      toolCalls: tools,
+      usage: await stream.usage,
+      hasToolResults: tools.length > 0 || errors.length > 0,
+    };
+  }
+
+  async function runNativeStep(signal?: AbortSignal): Promise<StepResult> {
+    const stream = streamText({
+      model,
+      messages: messages,
+      tools: nativeTools,
+      abortSignal: signal,
+    });
+
+    let printedText = false;
+
+    for await (const part of stream.fullStream) {
+      if (part.type === "text-delta") {
+        process.stdout.write(printedText ? part.text : `AI: ${part.text}`);
+        printedText = true;
+      }
+
+      if (part.type === "tool-call") {
+        process.stdout.write(`${printedText ? "\n" : ""}🔨 [${part.toolName}] Detected\n`);
+        printedText = false;
+      }
+
+      if (part.type === "error") {
+        throw part.error;
+      }
+    }
+
+    if (printedText) {
+      process.stdout.write("\n");
+    }
+    signal?.throwIfAborted();
+
+    const toolCalls = await stream.toolCalls;
+    const response = await stream.response;
+    const executed: ToolType[] = [];
+
+    // Assistant message with its tool-call parts
+    messages.push(...response.messages);
+
+    // Every tool call needs its tool-result before the next model call
+    for (const toolCall of toolCalls) {
+      // The SDK already answered invalid calls with an error tool-result in response.messages
+      if (toolCall.invalid) {
+        console.log(`❌ [${toolCall.toolName}] Invalid ${toolCall.toolName} call: ${toolCall.error}`);
+        continue;
+      }
+
+      const tool = { name: toolCall.toolName, params: toToolParams(toolCall.input) };
+      let result: ToolResult;
+
+      if (signal?.aborted) {
+        // Calls after a stopped command still need their tool-result
+        result = { aiOutput: "Not run, the user stopped the turn", userOutput: "⏹️ Not run, the turn was stopped" };
+      } else {
+        executed.push(tool);
+        console.log(`🔨 [${tool.name}] Executing...`);
+        result = await executeTool(tool, { ...toolContext, signal });
+      }
+
+      // Display clean output to user
+      console.log(`🔨 [${tool.name}] ${result.userOutput}`);
+
+      // Send detailed output to AI
+      messages.push({
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: toolCall.toolCallId,
+            toolName: toolCall.toolName,
+            output: { type: "text", value: result.aiOutput },
+          },
+        ],
+      });
+    }
+
+    return {
+      text: await stream.text,
+      toolCalls: executed,
+      usage: await stream.usage,
+      hasToolResults: toolCalls.length > 0,
+    };
+  }
+
+  return {
+    messages,
+    runAgent,
+    workspace,
+    checkpoints: toolContext.checkpoints,
+    // Estimated size of the conversation sent with the next model call
+    contextTokens: () => estimateTotalTokens(messages),
+    contextBudget: () => contextBudget,
+    model: () => model,
+    setModel,
+    usage: () => new Map(usage),
+    clear,
+    undoLastTurn,
+    saveSession,
+  };
+}
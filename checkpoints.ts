@@ -0,0 +1,94 @@
+import { unlink } from "node:fs/promises";
+import type { ResolvedPath } from "./workspace";
+
+export type Checkpoint = {
+  id: number;
+  // User turn the change was made in, starting at 1
+  turn: number;
+  file: ResolvedPath;
+  // Content before the change, null when the file did not exist
+  content: string | null;
+  tool: string;
+  createdAt: Date;
+};
+
+export type RestoredFile = { file: ResolvedPath; deleted: boolean };
+
+export type CheckpointStore = ReturnType<typeof createCheckpointStore>;
+
+async function restoreContent(checkpoint: Checkpoint): Promise<RestoredFile> {
+  if (checkpoint.content === null) {
+    await unlink(checkpoint.file.absolute).catch(() => {});
+    return { file: checkpoint.file, deleted: true };
+  }
+
+  await Bun.write(checkpoint.file.absolute, checkpoint.content);
+  return { file: checkpoint.file, deleted: false };
+}
+
+/**
+ * In-memory history of the files changed by the agent during a session, so
+ * changes can be undone per file or rewound to the start of a user turn.
+ */
+export function createCheckpointStore() {
+  let checkpoints: Checkpoint[] = [];
+  const turns: string[] = [];
+  let nextId = 1;
+
+  return {
+    startTurn(prompt: string) {
+      turns.push(prompt);
+      return turns.length;
+    },
+
+    turns: () => [...turns],
+
+    record(file: ResolvedPath, content: string | null, tool: string) {
+      checkpoints.push({
+        id: nextId++,
+        turn: Math.max(turns.length, 1),
+        file,
+        content,
+        tool,
+        createdAt: new Date(),
+      });
+    },
+
+    list: () => [...checkpoints],
+
+    // Undoes the changes of a file back to the given checkpoint, or only its last change
+    async restoreFile(file: ResolvedPath, id?: number): Promise<RestoredFile> {
+      const fileCheckpoints = checkpoints.filter((checkpoint) => checkpoint.file.absolute === file.absolute);
+      const target = id === undefined
+        ? fileCheckpoints[fileCheckpoints.length - 1]
+        : fileCheckpoints.find((checkpoint) => checkpoint.id === id);
+
+      if (!target) {
+        throw new Error(
+          id === undefined ? `No checkpoint for ${file.relative}` : `No checkpoint #${id} for ${file.relative}`
+        );
+      }
+
+      const restored = await restoreContent(target);
+      checkpoints = checkpoints.filter(
+        (checkpoint) => checkpoint.file.absolute !== target.file.absolute || checkpoint.id < target.id
+      );
+      return restored;
+    },
+
+    // Puts every changed file back in the state it had before the given turn
+    async rewindTo(turn: number): Promise<RestoredFile[]> {
+      const earliestPerFile = new Map<string, Checkpoint>();
+
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.turn >= turn && !earliestPerFile.has(checkpoint.file.absolute)) {
+          earliestPerFile.set(checkpoint.file.absolute, checkpoint);
+        }
+      }
+
+      const restored = await Promise.all([...earliestPerFile.values()].map(restoreContent));
+      checkpoints = checkpoints.filter((checkpoint) => checkpoint.turn < turn);
+      return restored;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type { AgentOptions } from "./agent";
+import { loadConfig } from "./config";
+import { resolveModel } from "./models";
+import { createPermissions, type PermissionPrompt } from "./permissions";
+import { createWorkspace } from "./workspace";
+import { resolveContextBudget } from "./context";
+
+// Flags shared by the interactive agent and the eval runner
+export const agentCliOptions = {
+  // "native" uses the provider function calling, "xml" works with any model
+  protocol: { type: "string", default: "xml" },
+  "max-steps": { type: "string", default: "25" },
+  // Model ids like "openai:gpt-5", override agent.config.json
+  model: { type: "string" },
+  "summarizer-model": { type: "string" },
+  // Extra directory the file tools can access, can be repeated
+  "add-dir": { type: "string", multiple: true },
+} as const;
+
+export type AgentCliValues = {
+  protocol: string;
+  "max-steps": string;
+  model?: string;
+  "summarizer-model"?: string;
+  "add-dir"?: string[];
+};
+
+// Tools in "ask" mode are denied when there is no askPermission
+export async function resolveAgentOptions(
+  args: AgentCliValues,
+  askPermission?: PermissionPrompt
+): Promise<AgentOptions> {
+  if (args.protocol !== "xml" && args.protocol !== "native") {
+    throw new Error(`Unknown protocol "${args.protocol}", expected "xml" or "native"`);
+  }
+
+  const maxSteps = parseInt(args["max-steps"]);
+
+  if (!(maxSteps > 0)) {
+    throw new Error(`Invalid --max-steps "${args["max-steps"]}", expected a positive number`);
+  }
+
+  const config = await loadConfig();
+  const modelId = args.model ?? config.models.agent;
+
+  return {
+    model: resolveModel(modelId),
+    summarizer: resolveModel(args["summarizer-model"] ?? config.models.summarizer),
+    protocol: args.protocol,
+    maxSteps,
+    permissions: createPermissions(config.permissions, askPermission),
+    bash: config.bash,
+    workspace: createWorkspace(process.cwd(), [
+      ...config.workspace.allowedDirs,
+      ...(args["add-dir"] ?? []),
+    ]),
+    context: resolveContextBudget(config.context, modelId),
+    output: config.output,
+  };
+}
+
+// Prints the error and exits, for invalid flags or config at startup
+export async function resolveAgentOptionsOrExit(args: AgentCliValues, askPermission?: PermissionPrompt) {
+  try {
+    return await resolveAgentOptions(args, askPermission);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
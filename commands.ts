@@ -0,0 +1,314 @@
+import type { Agent } from "./agent";
+import type { AgentConfig } from "./config";
+import { messageText, resolveContextBudget } from "./context";
+import { modelPrices, resolveModel } from "./models";
+import { nativeTools } from "./native-tools";
+import { modelName, preview, type Session } from "./sessions";
+import { toolTagSpecs } from "./tools";
+
+export type CommandContext = {
+  agent: Agent;
+  session: Session;
+  config: AgentConfig;
+  commands: CommandRegistry;
+};
+
+export type SlashCommand = {
+  // Without the leading "/"
+  name: string;
+  aliases?: string[];
+  // Arguments shown by /help, like "<file> [id]"
+  usage?: string;
+  description: string;
+  // Returning "exit" ends the interactive loop
+  run: (args: string[], context: CommandContext) => void | "exit" | Promise<void | "exit">;
+  // Candidates for tab completion of the last argument
+  complete?: (context: CommandContext) => string[];
+};
+
+// Spelled out, commands receive the registry in their context
+export type CommandRegistry = {
+  register: (command: SlashCommand) => void;
+  list: () => SlashCommand[];
+  complete: (line: string) => [string[], string];
+  run: (input: string) => Promise<void | "exit">;
+};
+
+export function isCommand(input: string) {
+  return input.trimStart().startsWith("/");
+}
+
+// Splits on spaces, "double" and 'single' quotes keep spaces and a backslash escapes the next character
+export function parseCommandLine(input: string) {
+  const words: string[] = [];
+  let current: string | undefined;
+  let quote: string | undefined;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === "\\" && i + 1 < input.length && quote !== "'") {
+      current = (current ?? "") + input[++i];
+    } else if (quote) {
+      if (char === quote) quote = undefined;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current ??= "";
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) words.push(current);
+      current = undefined;
+    } else {
+      current = (current ?? "") + char;
+    }
+  }
+
+  if (quote) throw new Error(`Missing closing ${quote}`);
+  if (current !== undefined) words.push(current);
+
+  const [name = "", ...args] = words;
+  return { name: name.replace(/^\//, ""), args };
+}
+
+/**
+ * Slash commands of the interactive loop. New commands are added with
+ * `register`, the loop only calls `run` and `complete`.
+ */
+export function createCommandRegistry(context: Omit<CommandContext, "commands">): CommandRegistry {
+  const commands = new Map<string, SlashCommand>();
+  const byName = new Map<string, SlashCommand>();
+  const fullContext: CommandContext = { ...context, commands: { register, list, complete, run } };
+
+  function register(command: SlashCommand) {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      if (byName.has(name)) throw new Error(`Command /${name} is already registered`);
+      byName.set(name, command);
+    }
+    commands.set(command.name, command);
+  }
+
+  function list() {
+    return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Readline completer: completes command names, then the last argument when the command knows its values
+  function complete(line: string): [string[], string] {
+    if (!isCommand(line)) return [[], line];
+
+    const words = line.trimStart().split(/\s+/);
+    if (words.length === 1) {
+      const names = [...byName.keys()].map((name) => `/${name}`).sort();
+      return [names.filter((name) => name.startsWith(words[0])), words[0]];
+    }
+
+    const command = byName.get(words[0].slice(1));
+    const partial = words[words.length - 1];
+    const candidates = command?.complete?.(fullContext) ?? [];
+    return [candidates.filter((candidate) => candidate.startsWith(partial)), partial];
+  }
+
+  async function run(input: string): Promise<void | "exit"> {
+    try {
+      const { name, args } = parseCommandLine(input.trim());
+      const command = byName.get(name);
+
+      if (!command) {
+        console.log(`Unknown command /${name}, see /help`);
+        return;
+      }
+
+      return await command.run(args, fullContext);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  return fullContext.commands;
+}
+
+function formatTokens(count: number) {
+  return count.toLocaleString("en-US");
+}
+
+function checkpointedFiles({ agent }: CommandContext) {
+  return [...new Set(agent.checkpoints.list().map((checkpoint) => checkpoint.file.relative))];
+}
+
+function listCheckpoints({ agent }: CommandContext) {
+  const checkpoints = agent.checkpoints.list();
+  const turns = agent.checkpoints.turns();
+
+  if (checkpoints.length === 0) {
+    console.log("No checkpoints yet, files are recorded when the agent changes them.");
+    return;
+  }
+
+  for (const [index, prompt] of turns.entries()) {
+    const turn = index + 1;
+    const inTurn = checkpoints.filter((checkpoint) => checkpoint.turn === turn);
+    if (inTurn.length === 0) continue;
+
+    console.log(`Turn ${turn}: ${preview(prompt)}`);
+    for (const checkpoint of inTurn) {
+      const time = checkpoint.createdAt.toLocaleTimeString();
+      const state = checkpoint.content === null ? " (new file)" : "";
+      console.log(`  #${checkpoint.id} ${checkpoint.tool} ${checkpoint.file.relative}${state} at ${time}`);
+    }
+  }
+}
+
+function formatTranscript({ agent }: CommandContext) {
+  return agent.messages
+    .filter((message) => message.role !== "system")
+    .map((message) => `## ${message.role}\n\n${messageText(message)}`)
+    .join("\n\n");
+}
+
+export const builtinCommands: SlashCommand[] = [
+  {
+    name: "help",
+    description: "List the commands",
+    run(_args, { commands }) {
+      for (const command of commands.list()) {
+        const names = [command.name, ...(command.aliases ?? [])].map((name) => `/${name}`).join(", ");
+        console.log(`${names}${command.usage ? ` ${command.usage}` : ""}  ${command.description}`);
+      }
+    },
+  },
+  {
+    name: "exit",
+    aliases: ["quit"],
+    description: "Quit the agent",
+    run: () => "exit",
+  },
+  {
+    name: "clear",
+    description: "Start the conversation over, the system prompt stays",
+    async run(_args, { agent }) {
+      await agent.clear();
+      console.log("🧹 Conversation cleared");
+    },
+  },
+  {
+    name: "model",
+    usage: "[model id]",
+    description: "Show the model, or switch to another one like openai:gpt-5-mini",
+    run(args, { agent, config }) {
+      if (!args[0]) {
+        console.log(`Model: ${modelName(agent.model())}, context window of ${formatTokens(agent.contextBudget().maxTokens)} tokens`);
+        return;
+      }
+
+      agent.setModel(resolveModel(args[0]), resolveContextBudget(config.context, args[0]));
+      console.log(`🔀 Switched to ${args[0]}`);
+    },
+    complete: ({ config }) => [...new Set([config.models.agent, config.models.summarizer, ...Object.keys(modelPrices)])],
+  },
+  {
+    name: "tools",
+    description: "List the tools with their permission mode",
+    run(_args, { config }) {
+      for (const name of Object.keys(toolTagSpecs)) {
+        const mode = config.permissions.tools[name] ?? "allow";
+        const description = nativeTools[name as keyof typeof nativeTools]?.description ?? "";
+        console.log(`${name} (${mode})  ${description.split(". ")[0].replace(/\.$/, "")}`);
+      }
+    },
+  },
+  {
+    name: "save",
+    usage: "[file]",
+    description: "Save the session now, or also export the conversation as Markdown to a file",
+    async run(args, context) {
+      if (context.agent.messages.length <= 1) {
+        console.log("Nothing to save yet, the session is written once it has a message.");
+        return;
+      }
+
+      await context.agent.saveSession();
+      console.log(`💾 Session ${context.session.id} saved in ${context.session.path}`);
+
+      if (args[0]) {
+        await Bun.write(args[0], formatTranscript(context) + "\n");
+        console.log(`💾 Conversation exported to ${args[0]}`);
+      }
+    },
+  },
+  {
+    name: "undo",
+    description: "Remove the last turn from the conversation and rewind the files it changed",
+    async run(_args, { agent }) {
+      const { prompt, restored, hadCheckpoints } = await agent.undoLastTurn();
+
+      console.log(`⏪ Undid "${preview(prompt)}"`);
+      for (const { file, deleted } of restored) {
+        console.log(`  ${file.relative}${deleted ? " (deleted)" : " (restored)"}`);
+      }
+      if (!hadCheckpoints) console.log("  This turn comes from a resumed session, its file changes were not rewound.");
+    },
+  },
+  {
+    name: "cost",
+    description: "Show the tokens used by the agent model and their estimated price",
+    run(_args, { agent }) {
+      const usage = agent.usage();
+
+      if (usage.size === 0) {
+        console.log("No model calls yet.");
+        return;
+      }
+
+      let total = 0;
+      for (const [model, { inputTokens, outputTokens }] of usage) {
+        const price = modelPrices[model];
+        const cost = price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : undefined;
+        total += cost ?? 0;
+
+        console.log(
+          `${model}: ${formatTokens(inputTokens)} input + ${formatTokens(outputTokens)} output tokens, ${cost === undefined ? "unknown price" : `$${cost.toFixed(4)}`}`
+        );
+      }
+      console.log(`Total: $${total.toFixed(4)}, summaries and web fetches not included`);
+    },
+  },
+  {
+    name: "checkpoints",
+    description: "List the file changes of the agent, grouped by turn",
+    run: (_args, context) => listCheckpoints(context),
+  },
+  {
+    name: "restore",
+    usage: "<file> [checkpoint id]",
+    description: "Undo the last change of a file, or every change back to a checkpoint",
+    async run(args, { agent }) {
+      if (!args[0]) {
+        console.log("Usage: /restore <file> [checkpoint id]");
+        return;
+      }
+
+      const id = args[1] ? parseInt(args[1].replace("#", "")) : undefined;
+      // "./a.ts" or an absolute path find the checkpoints of "a.ts"
+      const restored = await agent.checkpoints.restoreFile(await agent.workspace.resolve(args[0]), id);
+      console.log(`⏪ ${restored.file.relative} ${restored.deleted ? "deleted (it did not exist)" : "restored"}`);
+    },
+    complete: checkpointedFiles,
+  },
+  {
+    name: "rewind",
+    usage: "<turn>",
+    description: "Put every changed file back in its state before a turn",
+    async run(args, { agent }) {
+      const turn = parseInt(args[0]);
+      if (!(turn > 0)) {
+        console.log("Usage: /rewind <turn>, see /checkpoints for turn numbers");
+        return;
+      }
+
+      const restored = await agent.checkpoints.rewindTo(turn);
+      console.log(`⏪ Rewound ${restored.length} files to their state before turn ${turn}`);
+      for (const { file, deleted } of restored) {
+        console.log(`  ${file.relative}${deleted ? " (deleted)" : ""}`);
+      }
+    },
+  },
+];
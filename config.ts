@@ -0,0 +1,76 @@
+import { defaultPermissionConfig, type PermissionConfig } from "./permissions";
+import { defaultBashConfig, type BashConfig } from "./tools";
+import { defaultContextConfig, type ContextConfig } from "./context";
+import { defaultOutputConfig, type OutputConfig } from "./output-policy";
+import { defaultSessionConfig, type SessionConfig } from "./sessions";
+
+export type AgentConfig = {
+  models: {
+    // Model running the agent loop
+    agent: string;
+    // Model summarizing pages fetched by webfetch
+    summarizer: string;
+  };
+  permissions: PermissionConfig;
+  bash: BashConfig;
+  workspace: {
+    // Directories outside the working directory that file tools can access
+    allowedDirs: string[];
+  };
+  context: ContextConfig;
+  output: OutputConfig;
+  sessions: SessionConfig;
+};
+
+export const defaultConfig: AgentConfig = {
+  models: {
+    agent: "openai:gpt-5",
+    summarizer: "openai:gpt-5",
+  },
+  permissions: defaultPermissionConfig,
+  bash: defaultBashConfig,
+  workspace: { allowedDirs: [] },
+  context: defaultContextConfig,
+  output: defaultOutputConfig,
+  sessions: defaultSessionConfig,
+};
+
+export const CONFIG_FILE = "agent.config.json";
+
+// Optional JSON file in the working directory, missing keys fall back to the defaults
+export async function loadConfig(path: string = CONFIG_FILE): Promise<AgentConfig> {
+  const file = Bun.file(path);
+
+  if (!(await file.exists())) {
+    return defaultConfig;
+  }
+
+  try {
+    const config = (await file.json()) as Partial<AgentConfig>;
+
+    return {
+      ...defaultConfig,
+      ...config,
+      models: { ...defaultConfig.models, ...config.models },
+      permissions: {
+        tools: { ...defaultConfig.permissions.tools, ...config.permissions?.tools },
+        bash: { ...defaultConfig.permissions.bash, ...config.permissions?.bash },
+      },
+      bash: { ...defaultConfig.bash, ...config.bash },
+      workspace: { ...defaultConfig.workspace, ...config.workspace },
+      context: {
+        ...defaultConfig.context,
+        ...config.context,
+        models: { ...defaultConfig.context.models, ...config.context?.models },
+      },
+      output: {
+        ...defaultConfig.output,
+        ...config.output,
+        tools: { ...defaultConfig.output.tools, ...config.output?.tools },
+      },
+      sessions: { ...defaultConfig.sessions, ...config.sessions },
+    };
+  } catch (error) {
+    throw new Error(`Invalid ${path}: ${error}`);
+  }
+}
@@ -0,0 +1,219 @@
+import { generateText, type LanguageModel, type ModelMessage } from "ai";
+
+export type ContextConfig = {
+  // Context window used for models missing from `models`, in tokens
+  defaultTokens: number;
+  // Context window per model id, like "openai:gpt-5"
+  models: Record<string, number>;
+  // Most recent user turns never summarized
+  keepTurns: number;
+};
+
+export const defaultContextConfig: ContextConfig = {
+  defaultTokens: 128_000,
+  models: { "openai:gpt-5": 272_000 },
+  keepTurns: 2,
+};
+
+export type ContextBudget = {
+  maxTokens: number;
+  keepTurns: number;
+};
+
+export type CompactionResult = {
+  messages: ModelMessage[];
+  tokensBefore: number;
+  tokensAfter: number;
+  elidedOutputs: number;
+  summarizedMessages: number;
+};
+
+// Compaction starts past this share of the budget, and stops eliding once under the second one
+const COMPACT_AT = 0.8;
+const TARGET = 0.6;
+// Tool outputs shorter than this are kept, eliding them saves nothing
+const MIN_ELIDED_CHARS = 400;
+// Tool outputs of the current turn kept when even recent turns do not fit
+const KEEP_RECENT_OUTPUTS = 2;
+// Length of a tool output quoted in the transcript given to the summarizer
+const SUMMARY_OUTPUT_CHARS = 2000;
+
+const SUMMARY_HEADER = "[Summary of the earlier conversation, compacted to save context]";
+
+const SUMMARY_PROMPT =
+  "Summarize this conversation between a user and a coding agent, so the agent can continue the work without it. Keep the user goals and instructions, the decisions made, the files read or changed with what matters in them, errors met and the work left to do. Be concise, use bullet points.";
+
+export function resolveContextBudget(config: ContextConfig, modelId: string): ContextBudget {
+  return { maxTokens: config.models[modelId] ?? config.defaultTokens, keepTurns: config.keepTurns };
+}
+
+// About 4 characters per token for English and code, close enough to decide when to compact
+function estimateTextTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function messageText(message: ModelMessage): string {
+  if (typeof message.content === "string") return message.content;
+
+  return message.content
+    .map((part) => {
+      if (part.type === "text") return part.text;
+      if (part.type === "tool-call") return `[${part.toolName} call] ${JSON.stringify(part.input)}`;
+      if (part.type === "tool-result") {
+        const output = part.output;
+        const value = output.type === "text" || output.type === "error-text" ? output.value : JSON.stringify(output);
+        return `[${part.toolName} result] ${value}`;
+      }
+      return `[${part.type}]`;
+    })
+    .join("\n");
+}
+
+export function estimateTokens(message: ModelMessage) {
+  // Role and message framing
+  return 4 + estimateTextTokens(messageText(message));
+}
+
+export function estimateTotalTokens(messages: ModelMessage[]) {
+  return messages.reduce((total, message) => total + estimateTokens(message), 0);
+}
+
+// XML tool results are user messages like <tool name="bash" params="...">output</tool>
+function xmlToolName(message: ModelMessage) {
+  if (message.role !== "user" || typeof message.content !== "string") return undefined;
+  return /^<tool name="([^"]*)"/.exec(message.content)?.[1];
+}
+
+function isToolOutput(message: ModelMessage) {
+  return message.role === "tool" || xmlToolName(message) !== undefined;
+}
+
+function elideToolOutput(message: ModelMessage): ModelMessage | undefined {
+  const tokens = estimateTokens(message);
+  const notice = `[output elided to save context (${tokens} tokens), run the tool again if you need it]`;
+
+  const name = xmlToolName(message);
+  if (name !== undefined) {
+    if ((message.content as string).length < MIN_ELIDED_CHARS) return undefined;
+    return { role: "user", content: `<tool name="${name}">${notice}</tool>` };
+  }
+
+  if (message.role === "tool" && messageText(message).length >= MIN_ELIDED_CHARS) {
+    return {
+      role: "tool",
+      content: message.content.map((part) => ({ ...part, output: { type: "text" as const, value: notice } })),
+    };
+  }
+
+  return undefined;
+}
+
+// Replaces tool outputs of messages[from, to) until the total fits the target, oldest first
+function elideOutputs(messages: ModelMessage[], from: number, to: number, target: number) {
+  let total = estimateTotalTokens(messages);
+  let elided = 0;
+
+  for (let i = from; i < to && total > target; i++) {
+    if (!isToolOutput(messages[i])) continue;
+
+    const replacement = elideToolOutput(messages[i]);
+    if (!replacement) continue;
+
+    total += estimateTokens(replacement) - estimateTokens(messages[i]);
+    messages[i] = replacement;
+    elided++;
+  }
+
+  return elided;
+}
+
+// True when eliding or summarizing messages[from, to) would save something
+function canShrink(messages: ModelMessage[], from: number, to: number) {
+  const older = messages.slice(from, to);
+  // A lone summary of an earlier compaction would only be summarized again
+  const onlySummary =
+    older.length === 1 && typeof older[0].content === "string" && older[0].content.startsWith(SUMMARY_HEADER);
+
+  return (older.length > 0 && !onlySummary) || older.some((message) => isToolOutput(message) && elideToolOutput(message));
+}
+
+function formatTranscript(messages: ModelMessage[]) {
+  return messages
+    .map((message) => {
+      const text = messageText(message);
+      const cut = isToolOutput(message) && text.length > SUMMARY_OUTPUT_CHARS
+        ? `${text.slice(0, SUMMARY_OUTPUT_CHARS)}... [cut]`
+        : text;
+      return `### ${message.role}\n${cut}`;
+    })
+    .join("\n\n");
+}
+
+async function summarize(messages: ModelMessage[], summarizer: LanguageModel) {
+  try {
+    const { text } = await generateText({
+      model: summarizer,
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: formatTranscript(messages) },
+      ],
+    });
+    return text;
+  } catch (error) {
+    return `The summary of these messages failed (${(error as Error).message}), they were dropped.`;
+  }
+}
+
+/**
+ * Shrinks the conversation once it passes 80% of the budget: first elides old
+ * tool outputs, then summarizes every turn before the `keepTurns` last ones.
+ * System messages and recent turns stay as they are. Returns undefined when
+ * the messages fit, or when nothing before the recent turns can shrink: a
+ * long current turn would otherwise be compacted again at every step.
+ */
+export async function compactMessages(
+  messages: ModelMessage[],
+  budget: ContextBudget,
+  summarizer: LanguageModel,
+  isPrompt: (message: ModelMessage) => boolean
+): Promise<CompactionResult | undefined> {
+  const tokensBefore = estimateTotalTokens(messages);
+  if (tokensBefore <= budget.maxTokens * COMPACT_AT) return undefined;
+
+  const compacted = [...messages];
+  const target = budget.maxTokens * TARGET;
+  const firstMessage = compacted.findIndex((message) => message.role !== "system");
+  const prompts = compacted.map((message, i) => (isPrompt(message) ? i : -1)).filter((i) => i >= firstMessage);
+  // Start of the turns that are kept as they are
+  const recentStart = prompts.length > budget.keepTurns ? prompts[prompts.length - budget.keepTurns] : firstMessage;
+  if (!canShrink(compacted, firstMessage, recentStart)) return undefined;
+
+  let elidedOutputs = elideOutputs(compacted, firstMessage, recentStart, target);
+  let summarizedMessages = 0;
+
+  if (estimateTotalTokens(compacted) > target && recentStart > firstMessage) {
+    const older = compacted.slice(firstMessage, recentStart);
+    const summary = await summarize(older, summarizer);
+
+    compacted.splice(firstMessage, older.length, {
+      role: "user",
+      content: `${SUMMARY_HEADER}\n${summary}`,
+    });
+    summarizedMessages = older.length;
+  }
+
+  // A single long turn can still be too big, only its last outputs are then kept
+  if (estimateTotalTokens(compacted) > target) {
+    const outputs = compacted.map((message, i) => (isToolOutput(message) ? i : -1)).filter((i) => i >= 0);
+    const keepFrom = outputs.length > KEEP_RECENT_OUTPUTS ? outputs[outputs.length - KEEP_RECENT_OUTPUTS] : 0;
+    elidedOutputs += elideOutputs(compacted, firstMessage, keepFrom, target);
+  }
+
+  return {
+    messages: compacted,
+    tokensBefore,
+    tokensAfter: estimateTotalTokens(compacted),
+    elidedOutputs,
+    summarizedMessages,
+  };
+}
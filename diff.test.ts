@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { diffFiles, diffLines, formatDiffStats, formatUnifiedDiff } from "./diff";
+
+describe("diffLines", () => {
+  test("keeps common lines and marks the changed ones", () => {
+    expect(diffLines("a\nb\nc\n", "a\nx\nc\n")).toEqual([
+      { type: "context", text: "a", newline: true },
+      { type: "remove", text: "b", newline: true },
+      { type: "add", text: "x", newline: true },
+      { type: "context", text: "c", newline: true },
+    ]);
+  });
+
+  test("a missing final newline is a change", () => {
+    expect(diffLines("a\n", "a")).toEqual([
+      { type: "remove", text: "a", newline: true },
+      { type: "add", text: "a", newline: false },
+    ]);
+  });
+});
+
+describe("formatUnifiedDiff", () => {
+  const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+  test("groups changes into hunks with context", () => {
+    const newText = oldText.replace("line 2\n", "line two\n").replace("line 19\n", "");
+    const diff = diffFiles(oldText, newText);
+
+    expect(formatDiffStats(diff)).toBe("+1 -2");
+    expect(formatUnifiedDiff("a.txt", diff)).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,5 +1,5 @@",
+        " line 1",
+        "-line 2",
+        "+line two",
+        " line 3",
+        " line 4",
+        " line 5",
+        "@@ -16,5 +16,4 @@",
+        " line 16",
+        " line 17",
+        " line 18",
+        "-line 19",
+        " line 20",
+      ].join("\n")
+    );
+  });
+
+  test("uses line 0 for a file created from nothing", () => {
+    expect(formatUnifiedDiff("new.txt", diffFiles("", "hello"))).toBe(
+      ["--- a/new.txt", "+++ b/new.txt", "@@ -0,0 +1,1 @@", "+hello", "\\ No newline at end of file"].join("\n")
+    );
+  });
+
+  test("cuts long diffs", () => {
+    const text = formatUnifiedDiff("a.txt", diffFiles(oldText, ""), 4);
+
+    expect(text.split("\n")).toEqual(["--- a/a.txt", "+++ b/a.txt", "@@ -1,20 +0,0 @@", "-line 1", "... 19 more diff lines"]);
+  });
+});
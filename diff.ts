@@ -0,0 +1,267 @@
+export type DiffLine = {
+  type: "context" | "add" | "remove";
+  // Without the line terminator
+  text: string;
+  // False for a last line without trailing newline
+  newline: boolean;
+};
+
+export type Hunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+export type FileDiff = {
+  hunks: Hunk[];
+  added: number;
+  removed: number;
+};
+
+type Op = "=" | "-" | "+";
+
+// Past this many differences Myers gets slow, the changed middle is then shown as replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+// Keeps the "\n" on each line so a missing final newline shows up as a change
+function splitLines(text: string) {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function myers(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Only diagonals -d..d matter for the backtrack of step d
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return [...a.map((): Op => "-"), ...b.map((): Op => "+")];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Op[] {
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push("=");
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      ops.push("+");
+      y--;
+    } else {
+      ops.push("-");
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push("=");
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+function toDiffLine(type: DiffLine["type"], line: string): DiffLine {
+  const newline = line.endsWith("\n");
+  return { type, text: newline ? line.slice(0, -1) : line, newline };
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix are cheap to strip and keep Myers small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const lines = a.slice(0, prefix).map((line) => toDiffLine("context", line));
+
+  let i = 0;
+  let j = 0;
+  for (const op of myers(middleA, middleB)) {
+    if (op === "=") {
+      lines.push(toDiffLine("context", middleA[i++]));
+      j++;
+    } else if (op === "-") {
+      lines.push(toDiffLine("remove", middleA[i++]));
+    } else {
+      lines.push(toDiffLine("add", middleB[j++]));
+    }
+  }
+
+  lines.push(...a.slice(a.length - suffix).map((line) => toDiffLine("context", line)));
+  return lines;
+}
+
+export function createHunks(lines: DiffLine[], context = 3): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let oldLine = 1;
+  let newLine = 1;
+  // Context lines seen since the last change of the current hunk
+  let trailing = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.type === "context") {
+      if (current) {
+        const nextChange = lines.findIndex((other, i) => i > index && other.type !== "context");
+        const closeEnough = nextChange !== -1 && nextChange - index <= context * 2 - trailing;
+
+        if (trailing < context || closeEnough) {
+          current.lines.push(line);
+          current.oldLines++;
+          current.newLines++;
+          trailing++;
+        } else {
+          hunks.push(current);
+          current = undefined;
+        }
+      }
+
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    if (!current) {
+      const before = lines.slice(Math.max(0, index - context), index);
+      current = {
+        oldStart: oldLine - before.length,
+        oldLines: before.length,
+        newStart: newLine - before.length,
+        newLines: before.length,
+        lines: [...before],
+      };
+    }
+
+    current.lines.push(line);
+    trailing = 0;
+
+    if (line.type === "remove") {
+      current.oldLines++;
+      oldLine++;
+    } else {
+      current.newLines++;
+      newLine++;
+    }
+  }
+
+  if (current) hunks.push(current);
+
+  // Unified diffs number an empty range from the line before it
+  for (const hunk of hunks) {
+    if (hunk.oldLines === 0) hunk.oldStart--;
+    if (hunk.newLines === 0) hunk.newStart--;
+  }
+
+  return hunks;
+}
+
+export function diffFiles(oldText: string, newText: string, context = 3): FileDiff {
+  const lines = diffLines(oldText, newText);
+
+  return {
+    hunks: createHunks(lines, context),
+    added: lines.filter((line) => line.type === "add").length,
+    removed: lines.filter((line) => line.type === "remove").length,
+  };
+}
+
+export function formatUnifiedDiff(path: string, diff: FileDiff, maxLines = Infinity): string {
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  const prefixes = { context: " ", add: "+", remove: "-" };
+
+  for (const hunk of diff.hunks) {
+    output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+
+    for (const line of hunk.lines) {
+      output.push(prefixes[line.type] + line.text);
+      if (!line.newline) output.push("\\ No newline at end of file");
+    }
+  }
+
+  if (output.length > maxLines) {
+    const hidden = output.length - maxLines;
+    return [...output.slice(0, maxLines), `... ${hidden} more diff lines`].join("\n");
+  }
+
+  return output.join("\n");
+}
+
+const COLORS = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  cyan: "\x1b[36m",
+  dim: "\x1b[2m",
+  reset: "\x1b[0m",
+};
+
+export function colorizeDiff(diffText: string): string {
+  return diffText
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return `${COLORS.dim}${line}${COLORS.reset}`;
+      if (line.startsWith("@@")) return `${COLORS.cyan}${line}${COLORS.reset}`;
+      if (line.startsWith("+")) return `${COLORS.green}${line}${COLORS.reset}`;
+      if (line.startsWith("-")) return `${COLORS.red}${line}${COLORS.reset}`;
+      return line;
+    })
+    .join("\n");
+}
+
+export function formatDiffStats(diff: FileDiff) {
+  return `+${diff.added} -${diff.removed}`;
+}
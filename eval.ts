@@ -0,0 +1,214 @@
+import { cp, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { createAgent, type AgentOptions, type AgentOutcome } from "./agent";
+import { agentCliOptions, resolveAgentOptionsOrExit } from "./cli";
+import { createWorkspace } from "./workspace";
+
+type FileExpectation = {
+  exists?: boolean;
+  contains?: string[];
+  notContains?: string[];
+  matches?: string;
+  // Same content as in the fixture
+  unchanged?: boolean;
+};
+
+type Scenario = {
+  name?: string;
+  prompt: string;
+  // Directory copied into the scenario workspace, relative to the scenario file
+  fixture?: string;
+  maxSteps?: number;
+  expect: {
+    status?: AgentOutcome["status"];
+    files?: Record<string, FileExpectation>;
+    tools?: { include?: string[]; exclude?: string[]; maxCalls?: number };
+    answer?: { contains?: string[]; matches?: string };
+  };
+};
+
+type ScenarioReport = {
+  name: string;
+  failures: string[];
+  outcome?: AgentOutcome;
+  durationMs: number;
+};
+
+async function loadScenarios(paths: string[]) {
+  const files: string[] = [];
+
+  for (const path of paths.length > 0 ? paths : ["evals"]) {
+    if (path.endsWith(".json")) {
+      files.push(resolve(path));
+      continue;
+    }
+
+    for await (const file of new Bun.Glob("*.json").scan({ cwd: path, absolute: true })) {
+      files.push(file);
+    }
+  }
+
+  return Promise.all(
+    files.sort().map(async (file) => ({
+      file,
+      scenario: (await Bun.file(file).json()) as Scenario,
+    }))
+  );
+}
+
+async function checkFiles(workspace: string, fixture: string | undefined, expectations: Record<string, FileExpectation>) {
+  const failures: string[] = [];
+
+  for (const [path, expected] of Object.entries(expectations)) {
+    const file = Bun.file(join(workspace, path));
+    const exists = await file.exists();
+
+    if (expected.exists !== undefined && exists !== expected.exists) {
+      failures.push(`${path} should ${expected.exists ? "exist" : "not exist"}`);
+      continue;
+    }
+
+    if (!exists) {
+      if (expected.contains || expected.matches || expected.unchanged) {
+        failures.push(`${path} is missing`);
+      }
+      continue;
+    }
+
+    const content = await file.text();
+
+    for (const text of expected.contains ?? []) {
+      if (!content.includes(text)) failures.push(`${path} should contain "${text}"`);
+    }
+
+    for (const text of expected.notContains ?? []) {
+      if (content.includes(text)) failures.push(`${path} should not contain "${text}"`);
+    }
+
+    if (expected.matches && !new RegExp(expected.matches).test(content)) {
+      failures.push(`${path} should match /${expected.matches}/`);
+    }
+
+    if (expected.unchanged) {
+      const original = fixture ? Bun.file(join(fixture, path)) : undefined;
+      if (!original || !(await original.exists()) || (await original.text()) !== content) {
+        failures.push(`${path} should be unchanged`);
+      }
+    }
+  }
+
+  return failures;
+}
+
+function checkOutcome(outcome: AgentOutcome, expected: Scenario["expect"]) {
+  const failures: string[] = [];
+  const usedTools = new Set(outcome.toolCalls.map((tool) => tool.name));
+
+  if (expected.status && outcome.status !== expected.status) {
+    failures.push(`status should be "${expected.status}", got "${outcome.status}"`);
+  }
+
+  for (const name of expected.tools?.include ?? []) {
+    if (!usedTools.has(name)) failures.push(`tool "${name}" should be used`);
+  }
+
+  for (const name of expected.tools?.exclude ?? []) {
+    if (usedTools.has(name)) failures.push(`tool "${name}" should not be used`);
+  }
+
+  const maxCalls = expected.tools?.maxCalls;
+  if (maxCalls !== undefined && outcome.toolCalls.length > maxCalls) {
+    failures.push(`at most ${maxCalls} tool calls expected, got ${outcome.toolCalls.length}`);
+  }
+
+  for (const text of expected.answer?.contains ?? []) {
+    if (!outcome.text.toLowerCase().includes(text.toLowerCase())) {
+      failures.push(`answer should contain "${text}"`);
+    }
+  }
+
+  if (expected.answer?.matches && !new RegExp(expected.answer.matches, "i").test(outcome.text)) {
+    failures.push(`answer should match /${expected.answer.matches}/i`);
+  }
+
+  return failures;
+}
+
+async function runScenario(file: string, scenario: Scenario, options: AgentOptions): Promise<ScenarioReport> {
+  const name = scenario.name ?? file.split("/").pop()!.replace(/\.json$/, "");
+  const fixture = scenario.fixture ? resolve(dirname(file), scenario.fixture) : undefined;
+  const workspace = await mkdtemp(join(tmpdir(), "agent-eval-"));
+  const start = performance.now();
+
+  try {
+    if (fixture) {
+      await cp(fixture, workspace, { recursive: true });
+    }
+
+    const agent = createAgent({
+      ...options,
+      workspace: createWorkspace(workspace),
+      maxSteps: scenario.maxSteps ?? options.maxSteps,
+    });
+    const outcome = await agent.runAgent(scenario.prompt);
+
+    const failures = [
+      ...checkOutcome(outcome, scenario.expect),
+      ...(await checkFiles(workspace, fixture, scenario.expect.files ?? {})),
+    ];
+
+    return { name, failures, outcome, durationMs: performance.now() - start };
+  } catch (error) {
+    return { name, failures: [`run failed: ${error}`], durationMs: performance.now() - start };
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
+
+function printReport(reports: ScenarioReport[]) {
+  console.log("\n📊 Eval report\n");
+
+  for (const report of reports) {
+    const icon = report.failures.length === 0 ? "✅" : "❌";
+    const stats = report.outcome
+      ? `${report.outcome.steps} steps, ${report.outcome.toolCalls.length} tool calls, ${report.outcome.usage.inputTokens} in / ${report.outcome.usage.outputTokens} out tokens`
+      : "no outcome";
+
+    console.log(`${icon} ${report.name} (${stats}, ${(report.durationMs / 1000).toFixed(1)}s)`);
+
+    for (const failure of report.failures) {
+      console.log(`   - ${failure}`);
+    }
+  }
+
+  const passed = reports.filter((report) => report.failures.length === 0).length;
+  console.log(`\n${passed}/${reports.length} scenarios passed`);
+}
+
+const { values: args, positionals } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    ...agentCliOptions,
+    // Approves bash commands, which the fixture copy does not contain
+    "allow-bash": { type: "boolean", default: false },
+  },
+  allowPositionals: true,
+});
+
+// Scenarios run in a throwaway copy of their fixture, nobody is there to approve.
+// Bash can reach anything outside that copy, "ask" only approves it with --allow-bash
+const options = await resolveAgentOptionsOrExit(args, async (tool) =>
+  tool.name !== "bash" || args["allow-bash"] ? "allow" : "deny"
+);
+const scenarios = await loadScenarios(positionals);
+const reports: ScenarioReport[] = [];
+
+for (const { file, scenario } of scenarios) {
+  console.log(`\n▶️ ${file}`);
+  reports.push(await runScenario(file, scenario, options));
+}
+
+printReport(reports);
+process.exit(reports.every((report) => report.failures.length === 0) ? 0 : 1);
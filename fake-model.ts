@@ -0,0 +1,105 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+
+export type ScriptedToolCall = { toolName: string; input: Record<string, unknown> };
+
+// A plain string is a text reply, which can contain XML tool tags
+export type ScriptedTurn = string | { text?: string; toolCalls?: ScriptedToolCall[] };
+
+export type ScriptedModel = LanguageModelV2 & {
+  // Prompts received by each call, in the provider format
+  calls: LanguageModelV2Prompt[];
+  remainingTurns: () => number;
+};
+
+/**
+ * Model that plays back one scripted turn per call, so the agent loop can run
+ * without network. Text is streamed in small chunks to exercise incremental
+ * parsing.
+ */
+export function createScriptedModel(turns: ScriptedTurn[], options: { chunkSize?: number } = {}): ScriptedModel {
+  const chunkSize = options.chunkSize ?? 7;
+  const queue = [...turns];
+  const calls: LanguageModelV2Prompt[] = [];
+  let toolCallCount = 0;
+
+  function nextTurn(callOptions: LanguageModelV2CallOptions) {
+    calls.push(structuredClone(callOptions.prompt));
+
+    const turn = queue.shift();
+    if (turn === undefined) {
+      throw new Error(`Scripted model has no turn left for call ${calls.length}`);
+    }
+
+    const { text = "", toolCalls = [] } = typeof turn === "string" ? { text: turn } : turn;
+
+    return {
+      text,
+      toolCalls: toolCalls.map((toolCall) => ({
+        type: "tool-call" as const,
+        toolCallId: `call_${++toolCallCount}`,
+        toolName: toolCall.toolName,
+        input: JSON.stringify(toolCall.input),
+      })),
+    };
+  }
+
+  function usage(text: string) {
+    const outputTokens = Math.ceil(text.length / 4);
+    return { inputTokens: 0, outputTokens, totalTokens: outputTokens };
+  }
+
+  return {
+    specificationVersion: "v2",
+    provider: "scripted",
+    modelId: "scripted",
+    supportedUrls: {},
+    calls,
+    remainingTurns: () => queue.length,
+
+    async doGenerate(callOptions) {
+      const { text, toolCalls } = nextTurn(callOptions);
+      const content: LanguageModelV2Content[] = [...(text ? [{ type: "text" as const, text }] : []), ...toolCalls];
+
+      return {
+        content,
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage: usage(text),
+        warnings: [],
+      };
+    },
+
+    async doStream(callOptions) {
+      const { text, toolCalls } = nextTurn(callOptions);
+      const parts: LanguageModelV2StreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+      if (text) {
+        parts.push({ type: "text-start", id: "text" });
+        for (let i = 0; i < text.length; i += chunkSize) {
+          parts.push({ type: "text-delta", id: "text", delta: text.slice(i, i + chunkSize) });
+        }
+        parts.push({ type: "text-end", id: "text" });
+      }
+
+      parts.push(...toolCalls, {
+        type: "finish",
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage: usage(text),
+      });
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import type { Dirent } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { createIgnoreMatcher, type IgnoreMatcher } from "./gitignore";
+
+export type GrepOptions = {
+  ignoreCase: boolean;
+  // Lines shown before and after each match
+  context: number;
+  // Glob patterns, matched against the file name when they have no "/"
+  include?: string;
+  exclude?: string;
+  maxResults: number;
+  // Only list the files that match
+  filesOnly: boolean;
+};
+
+export type GlobOptions = {
+  exclude?: string;
+  maxResults: number;
+};
+
+export type SearchResult = {
+  lines: string[];
+  // Matching lines, or files for a files-only grep or a glob
+  count: number;
+  // True when maxResults stopped the search
+  truncated: boolean;
+};
+
+// Never worth searching, even when no .gitignore lists them
+const SKIPPED_DIRS = new Set(["node_modules"]);
+// Entries listed per directory by listTree
+const MAX_TREE_ENTRIES = 50;
+// Larger files are skipped by grep
+const MAX_GREP_FILE_BYTES = 5 * 1024 * 1024;
+// Matching lines are cut past this length (minified files)
+const MAX_GREP_LINE_CHARS = 500;
+
+async function readEntries(dir: string, ignore: IgnoreMatcher) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const visible: Dirent[] = [];
+
+  for (const entry of entries) {
+    if (!(await ignore.isIgnored(join(dir, entry.name), entry.isDirectory()))) visible.push(entry);
+  }
+
+  // Directories first, like `tree --dirsfirst`
+  return visible.sort(
+    (a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name)
+  );
+}
+
+async function walkFiles(dir: string, ignore: IgnoreMatcher, prefix = ""): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const entry of await readEntries(join(dir, prefix), ignore)) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) files.push(...(await walkFiles(dir, ignore, path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Files under `dir`, relative to it and sorted, without the ones ignored by
+ * the .gitignore files of the repository.
+ */
+export async function listFiles(dir: string) {
+  const files = await walkFiles(dir, createIgnoreMatcher(dir));
+  return files.sort();
+}
+
+function describeCount(count: number) {
+  if (count === 0) return "empty";
+  return count === 1 ? "1 entry" : `${count} entries`;
+}
+
+/**
+ * Renders `dir` like the `tree` command, down to `depth` levels, skipping
+ * ignored files. Directories show their entry count, long ones end with "... N more".
+ */
+export async function listTree(dir: string, depth: number) {
+  const ignore = createIgnoreMatcher(dir);
+  const rootEntries = await readEntries(dir, ignore);
+  const lines = [`${basename(dir)}/ (${describeCount(rootEntries.length)})`];
+
+  async function render(path: string, entries: Dirent[], indent: string, level: number) {
+    const shown = entries.slice(0, MAX_TREE_ENTRIES);
+    const hidden = entries.length - shown.length;
+
+    for (const [index, entry] of shown.entries()) {
+      const last = index === shown.length - 1 && hidden === 0;
+      const branch = `${indent}${last ? "└── " : "├── "}`;
+
+      if (!entry.isDirectory()) {
+        lines.push(`${branch}${entry.name}`);
+        continue;
+      }
+
+      const child = join(path, entry.name);
+      const childEntries = await readEntries(child, ignore);
+      lines.push(`${branch}${entry.name}/ (${describeCount(childEntries.length)})`);
+
+      if (level < depth) {
+        await render(child, childEntries, `${indent}${last ? "    " : "│   "}`, level + 1);
+      }
+    }
+
+    if (hidden > 0) lines.push(`${indent}└── ... ${hidden} more`);
+  }
+
+  await render(dir, rootEntries, "", 1);
+  return lines.join("\n");
+}
+
+// Like `find -name` when the pattern has no "/", otherwise matched against the whole path
+function createPathMatcher(pattern: string) {
+  const glob = new Bun.Glob(pattern);
+  const nameOnly = !pattern.includes("/");
+  return (path: string) => glob.match(nameOnly ? basename(path) : path);
+}
+
+function filterFiles(files: string[], include?: string, exclude?: string) {
+  const included = include ? createPathMatcher(include) : () => true;
+  const excluded = exclude ? createPathMatcher(exclude) : () => false;
+  return files.filter((file) => included(file) && !excluded(file));
+}
+
+function cutLine(line: string) {
+  return line.length > MAX_GREP_LINE_CHARS ? `${line.slice(0, MAX_GREP_LINE_CHARS)}...` : line;
+}
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+export async function isBinary(file: ReturnType<typeof Bun.file>) {
+  const start = new Uint8Array(await file.slice(0, 8000).arrayBuffer());
+  return start.includes(0);
+}
+
+export async function readSearchable(path: string) {
+  const file = Bun.file(path);
+  if (file.size > MAX_GREP_FILE_BYTES) return undefined;
+
+  try {
+    return (await isBinary(file)) ? undefined : await file.text();
+  } catch {
+    // Deleted since it was listed, or unreadable
+    return undefined;
+  }
+}
+
+// grep -n output: "path:12:match", "path-13-context" and "--" between distant groups
+function formatMatches(path: string, lines: string[], matched: number[], context: number) {
+  const output: string[] = [];
+  let last = -1;
+
+  for (const index of matched) {
+    const from = Math.max(index - context, last + 1);
+    if (context > 0 && last !== -1 && from > last + 1) output.push("--");
+
+    for (let i = from; i <= Math.min(index + context, lines.length - 1); i++) {
+      // Context after this match may hold the next match, it is printed by the next iteration
+      if (i > index && matched.includes(i)) break;
+      output.push(`${path}${i === index ? ":" : "-"}${i + 1}${i === index ? ":" : "-"}${cutLine(lines[i])}`);
+      last = i;
+    }
+  }
+
+  return output;
+}
+
+export async function grepFiles(dir: string, pattern: string, options: GrepOptions): Promise<SearchResult> {
+  const regexp = new RegExp(pattern, options.ignoreCase ? "i" : "");
+  const files = filterFiles(await listFiles(dir), options.include, options.exclude);
+  const output: string[] = [];
+  let count = 0;
+
+  for (const file of files) {
+    const content = await readSearchable(join(dir, file));
+    if (content === undefined) continue;
+
+    const lines = content.split("\n");
+    if (content.endsWith("\n")) lines.pop();
+    const matched: number[] = [];
+
+    for (let i = 0; i < lines.length && count + matched.length < options.maxResults; i++) {
+      if (regexp.test(lines[i])) matched.push(i);
+    }
+
+    if (matched.length === 0) continue;
+
+    if (options.filesOnly) {
+      output.push(file);
+      count++;
+    } else {
+      if (options.context > 0 && output.length > 0) output.push("--");
+      output.push(...formatMatches(file, lines, matched, options.context));
+      count += matched.length;
+    }
+
+    if (count >= options.maxResults) {
+      return { lines: output, count, truncated: true };
+    }
+  }
+
+  return { lines: output, count, truncated: false };
+}
+
+export async function globFiles(dir: string, pattern: string, options: GlobOptions): Promise<SearchResult> {
+  const files = filterFiles(await listFiles(dir), pattern, options.exclude);
+  const lines = files.slice(0, options.maxResults);
+  return { lines, count: lines.length, truncated: files.length > lines.length };
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createIgnoreMatcher, parseGitignore } from "./gitignore";
+
+function matches(pattern: string, path: string) {
+  return parseGitignore(pattern)[0].regexp.test(path);
+}
+
+describe("parseGitignore", () => {
+  test("skips comments and blank lines", () => {
+    expect(parseGitignore("# comment\n\n  \n!\n*.log\n")).toHaveLength(1);
+  });
+
+  test("matches names at any depth unless anchored", () => {
+    expect(matches("*.log", "debug.log")).toBe(true);
+    expect(matches("*.log", "logs/debug.log")).toBe(true);
+    expect(matches("/build", "build")).toBe(true);
+    expect(matches("/build", "src/build")).toBe(false);
+    expect(matches("docs/*.md", "docs/a.md")).toBe(true);
+    expect(matches("docs/*.md", "src/docs/a.md")).toBe(false);
+  });
+
+  test("supports **, ? and character classes", () => {
+    expect(matches("**/temp", "a/b/temp")).toBe(true);
+    expect(matches("out/**", "out/a/b.js")).toBe(true);
+    expect(matches("a/**/b", "a/b")).toBe(true);
+    expect(matches("a/**/b", "a/x/y/b")).toBe(true);
+    expect(matches("file?.txt", "file1.txt")).toBe(true);
+    expect(matches("file?.txt", "file10.txt")).toBe(false);
+    expect(matches("[!a]*.ts", "b.ts")).toBe(true);
+    expect(matches("[!a]*.ts", "a.ts")).toBe(false);
+  });
+
+  test("reads negation, directory-only and escaped patterns", () => {
+    const [negated, dirOnly, hash, spaced] = parseGitignore("!keep.log\nnode_modules/\n\\#notes\nname\\ \n");
+
+    expect(negated.negate).toBe(true);
+    expect(dirOnly.dirOnly).toBe(true);
+    expect(hash.regexp.test("#notes")).toBe(true);
+    expect(spaced.regexp.test("name ")).toBe(true);
+  });
+});
+
+describe("createIgnoreMatcher", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "gitignore-test-"));
+    await mkdir(join(dir, ".git"));
+    await mkdir(join(dir, "src"));
+    await Bun.write(join(dir, ".gitignore"), "*.log\nbuild/\n");
+    await Bun.write(join(dir, "src", ".gitignore"), "!keep.log\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("follows every .gitignore down to the path, deeper ones win", async () => {
+    const matcher = createIgnoreMatcher(join(dir, "src"));
+
+    expect(matcher.root).toBe(dir);
+    expect(await matcher.isIgnored(join(dir, "debug.log"), false)).toBe(true);
+    expect(await matcher.isIgnored(join(dir, "src", "debug.log"), false)).toBe(true);
+    expect(await matcher.isIgnored(join(dir, "src", "keep.log"), false)).toBe(false);
+    expect(await matcher.isIgnored(join(dir, "build"), true)).toBe(true);
+    expect(await matcher.isIgnored(join(dir, "build"), false)).toBe(false);
+    expect(await matcher.isIgnored(join(dir, ".git"), true)).toBe(true);
+    expect(await matcher.isIgnored(join(dir, "src", "index.ts"), false)).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { existsSync } from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+
+type IgnoreRule = {
+  regexp: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+};
+
+export type IgnoreMatcher = {
+  root: string;
+  // Only checks the path itself: callers walking a tree never enter an ignored directory
+  isIgnored: (absolutePath: string, isDir: boolean) => Promise<boolean>;
+};
+
+// Never listed, whatever the .gitignore files say
+const ALWAYS_IGNORED = new Set([".git"]);
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function readCharClass(pattern: string, start: number) {
+  // A "]" right after "[" or "[!" is part of the class
+  let end = start + 1;
+  if (pattern[end] === "!" || pattern[end] === "^") end++;
+  if (pattern[end] === "]") end++;
+  end = pattern.indexOf("]", end);
+  if (end === -1) return undefined;
+
+  let body = pattern.slice(start + 1, end);
+  if (body.startsWith("!")) body = `^${body.slice(1)}`;
+  // A lone trailing backslash would escape the closing "]"
+  return { source: `[${body.replace(/\\$/, "\\\\")}]`, end };
+}
+
+function globToRegExp(pattern: string) {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+
+    if (char === "*" && pattern[i + 1] === "*" && atSegmentStart && pattern[i + 2] === "/") {
+      // "**/" matches zero or more directories
+      source += "(?:.*/)?";
+      i += 2;
+    } else if (char === "*" && pattern[i + 1] === "*" && atSegmentStart && i + 2 === pattern.length) {
+      // A trailing "/**" matches everything inside
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+      while (pattern[i + 1] === "*") i++;
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const charClass = readCharClass(pattern, i);
+      if (charClass) {
+        source += charClass.source;
+        i = charClass.end;
+      } else {
+        source += "\\[";
+      }
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    // "\#" and "\!" start literal patterns
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (line === "") continue;
+
+    // A "/" at the start or in the middle anchors the pattern to the .gitignore directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+
+    const prefix = anchored ? "^" : "^(?:.*/)?";
+    rules.push({ regexp: new RegExp(`${prefix}${globToRegExp(line)}$`), negate, dirOnly });
+  }
+
+  return rules;
+}
+
+function findRepositoryRoot(dir: string) {
+  for (let current = dir; ; current = dirname(current)) {
+    if (existsSync(join(current, ".git"))) return current;
+    if (dirname(current) === current) return undefined;
+  }
+}
+
+/**
+ * Decides which paths git would ignore, following every .gitignore from the
+ * repository root (or `dir` outside a repository) down to each path.
+ */
+export function createIgnoreMatcher(dir: string): IgnoreMatcher {
+  const root = findRepositoryRoot(dir) ?? dir;
+  const rulesByDir = new Map<string, Promise<IgnoreRule[]>>();
+
+  function rulesOf(relativeDir: string) {
+    let rules = rulesByDir.get(relativeDir);
+    if (!rules) {
+      const file = Bun.file(join(root, relativeDir, ".gitignore"));
+      rules = file.text().then(
+        (content) => parseGitignore(content),
+        () => []
+      );
+      rulesByDir.set(relativeDir, rules);
+    }
+    return rules;
+  }
+
+  async function isIgnored(absolutePath: string, isDir: boolean) {
+    const path = relative(root, absolutePath).split(sep).join("/");
+    if (path === "" || path.startsWith("..")) return false;
+
+    const segments = path.split("/");
+    if (ALWAYS_IGNORED.has(segments[segments.length - 1])) return true;
+
+    // Deeper .gitignore files come last, so their rules win
+    let ignored = false;
+    for (let depth = 0; depth < segments.length; depth++) {
+      const base = segments.slice(0, depth).join("/");
+      const pathInBase = segments.slice(depth).join("/");
+
+      for (const rule of await rulesOf(base)) {
+        if (rule.dirOnly && !isDir) continue;
+        if (rule.regexp.test(pathInBase)) ignored = !rule.negate;
+      }
+    }
+
+    return ignored;
+  }
+
+  return { root, isIgnored };
+}
@@ -0,0 +1,71 @@
+import { stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export type InstructionFile = { path: string; content: string };
+
+export type InstructionLoader = ReturnType<typeof createInstructionLoader>;
+
+export const INSTRUCTION_FILE = "AGENT.md";
+// Instructions are sent with every model call, a huge file would eat the context
+const MAX_INSTRUCTION_CHARS = 20_000;
+
+// User-level file first, then from the outermost directory down to the workspace root, so the closest file comes last
+export function instructionPaths(root: string) {
+  const dirs: string[] = [];
+  for (let dir = root; ; dir = dirname(dir)) {
+    dirs.unshift(dir);
+    if (dirname(dir) === dir) break;
+  }
+
+  return [join(homedir(), ".agent", INSTRUCTION_FILE), ...dirs.map((dir) => join(dir, INSTRUCTION_FILE))];
+}
+
+export function formatInstructions(files: InstructionFile[]) {
+  const sections = files.map(({ path, content }) => {
+    const text = content.length > MAX_INSTRUCTION_CHARS
+      ? `${content.slice(0, MAX_INSTRUCTION_CHARS)}\n... [truncated, read ${path} for the rest]`
+      : content;
+    return `### ${path}\n\n${text.trim()}`;
+  });
+
+  return [
+    "## Project instructions",
+    "Instructions written by the user for this project. Follow them, the later ones win when they disagree.",
+    ...sections,
+  ].join("\n\n");
+}
+
+/**
+ * Reads the AGENT.md files that apply to `root`. `load` only reads them again
+ * when one was created, changed or deleted since the last call.
+ */
+export function createInstructionLoader(root: string) {
+  const paths = instructionPaths(root);
+  // Size and modification time of every path, empty for missing files
+  let lastState: string | undefined;
+
+  async function load(): Promise<InstructionFile[] | undefined> {
+    const state = await Promise.all(
+      paths.map((path) =>
+        stat(path).then(
+          (stats) => (stats.isFile() ? `${stats.size}:${stats.mtimeMs}` : ""),
+          () => ""
+        )
+      )
+    );
+    const key = state.join("\n");
+    if (key === lastState) return undefined;
+    lastState = key;
+
+    const files = await Promise.all(
+      paths.map(async (path, i) => ({
+        path,
+        content: state[i] ? await Bun.file(path).text().catch(() => "") : "",
+      }))
+    );
+    return files.filter((file) => file.content.trim() !== "");
+  }
+
+  return { paths, load };
+}
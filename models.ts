@@ -5,3 +5,50 @@ export const openai = createOpenAI({});
 import { createAnthropic } from "@ai-sdk/anthropic";
 
 export const anthropic = createAnthropic({});
+
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createProviderRegistry, type LanguageModel } from "ai";
+
+export const registry = createProviderRegistry({ openai, anthropic });
+
+/**
+ * Resolves ids like "openai:gpt-5", "anthropic:claude-sonnet-4-0" or
+ * "openai-compatible:http://localhost:11434/v1/qwen2.5-coder:7b", where the
+ * last path segment is the model and the rest is the server base URL.
+ */
+export function resolveModel(id: string): LanguageModel {
+  const separator = id.indexOf(":");
+  if (separator === -1) {
+    throw new Error(`Invalid model "${id}", expected "<provider>:<model>"`);
+  }
+
+  const provider = id.slice(0, separator);
+  const modelId = id.slice(separator + 1);
+
+  if (provider === "openai-compatible") {
+    const slash = modelId.lastIndexOf("/");
+    if (slash === -1) {
+      throw new Error(`Invalid model "${id}", expected "openai-compatible:<baseURL>/<model>"`);
+    }
+
+    return createOpenAICompatible({
+      name: provider,
+      baseURL: modelId.slice(0, slash),
+    }).chatModel(modelId.slice(slash + 1));
+  }
+
+  if (provider !== "openai" && provider !== "anthropic") {
+    throw new Error(`Unknown provider "${provider}" in model "${id}"`);
+  }
+
+  return registry.languageModel(`${provider}:${modelId}`);
+}
+
+// USD per million tokens, for the cost estimate of /cost
+export const modelPrices: Record<string, { input: number; output: number }> = {
+  "openai:gpt-5": { input: 1.25, output: 10 },
+  "openai:gpt-5-mini": { input: 0.25, output: 2 },
+  "openai:gpt-5-nano": { input: 0.05, output: 0.4 },
+  "anthropic:claude-sonnet-4-0": { input: 3, output: 15 },
+  "anthropic:claude-opus-4-1": { input: 15, output: 75 },
+};
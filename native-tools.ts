@@ -0,0 +1,134 @@
+import { tool } from "ai";
+import { z } from "zod";
+
+// Schemas only: calls are executed by executeTool, exactly like the XML tags
+export const nativeTools = {
+  readfile: tool({
+    description:
+      'Read any file in the current directory. Lines come back prefixed with their number, like "12| ", the prefix is not part of the file.',
+    inputSchema: z.object({
+      file: z.string().describe("The path to the file you want to read"),
+      offset: z.number().int().optional().describe("The line number to start reading from, starting at 1"),
+      limit: z.number().int().optional().describe("The maximum number of lines to read, defaults to 2000"),
+    }),
+  }),
+  writefile: tool({
+    description:
+      "Write to any file in the current directory. You always need to FIRST read an existing file before writing to it, writes to files not read or changed since the last read are refused.",
+    inputSchema: z.object({
+      file: z.string().describe("The path to the file you want to write to"),
+      content: z.string().describe("The full content you want to write to the file"),
+    }),
+  }),
+  edit: tool({
+    description:
+      "Replace an exact string in a file. The old string must match exactly once, unless replace_all is set. Prefer it over writefile to change existing files. Like writefile, edits to files not read or changed since the last read are refused.",
+    inputSchema: z.object({
+      file: z.string().describe("The path to the file you want to edit"),
+      old: z.string().describe("The exact text to replace, including whitespace and indentation"),
+      new: z.string().describe("The text to replace it with"),
+      replace_all: z.boolean().optional().describe("Replace every match instead of requiring a unique one"),
+    }),
+  }),
+  apply_patch: tool({
+    description:
+      "Apply a unified diff to one or more files at once, all or nothing. Prefer it over several writefile or edit calls for changes spanning many files. Every existing file it changes must have been read first, and not changed on disk since.",
+    inputSchema: z.object({
+      patch: z
+        .string()
+        .describe("The unified diff, with --- a/path and +++ b/path headers per file and @@ hunks. Use /dev/null to create or delete a file"),
+    }),
+  }),
+  bash: tool({
+    description:
+      "Run any bash command and get its combined stdout/stderr, exit code and duration. Never run HARMFUL commands, like rm -rf /, etc.",
+    inputSchema: z.object({
+      command: z.string().describe("The bash command you want to run"),
+      timeout: z
+        .number()
+        .int()
+        .optional()
+        .describe("Maximum duration in seconds before the command is killed, defaults to 120, up to 600"),
+    }),
+  }),
+  get_tweet: tool({
+    description: "Get a tweet from a user.",
+    inputSchema: z.object({
+      tweet_id: z.string().describe("The id of the tweet you want to get"),
+    }),
+  }),
+  grep: tool({
+    description: "Search for a JavaScript regular expression in the files of a directory, skipping files ignored by git.",
+    inputSchema: z.object({
+      pattern: z.string().describe("The regular expression you want to search for"),
+      dir: z.string().optional().describe("The directory to search in, defaults to the current directory"),
+      ignore_case: z.boolean().optional().describe("Search case-insensitively"),
+      context: z.number().int().optional().describe("Lines to show before and after each match, up to 10"),
+      include: z.string().optional().describe('Only search files matching this glob, like "*.ts"'),
+      exclude: z.string().optional().describe("Skip files matching this glob"),
+      max_results: z.number().int().optional().describe("The maximum number of matches, defaults to 100"),
+      files_only: z.boolean().optional().describe("Only list the matching files"),
+    }),
+  }),
+  glob: tool({
+    description: "Search for files by glob pattern, skipping files ignored by git.",
+    inputSchema: z.object({
+      pattern: z
+        .string()
+        .describe('The glob pattern (supports *, **, ?, [] and {a,b}), matched against file names without "/", otherwise against paths'),
+      dir: z.string().optional().describe("The directory to search in, defaults to the current directory"),
+      exclude: z.string().optional().describe("Skip files matching this glob"),
+      max_results: z.number().int().optional().describe("The maximum number of files, defaults to 100"),
+    }),
+  }),
+  search: tool({
+    description:
+      'Search the workspace files by words, ranked by relevance, returning file line ranges with matching lines. Identifiers are split, so "format file size" finds formatFileSize.',
+    inputSchema: z.object({
+      query: z.string().describe("The words you are looking for"),
+      max_results: z.number().int().optional().describe("The maximum number of results, defaults to 10"),
+    }),
+  }),
+  outline: tool({
+    description:
+      "List the top-level functions, classes, interfaces, types and variables of a TypeScript or JavaScript file with their line ranges, without reading the whole file.",
+    inputSchema: z.object({
+      file: z.string().describe("The path to the file you want to outline"),
+    }),
+  }),
+  find_symbol: tool({
+    description: "Find where a function, class, interface, type, variable or method is declared in the TypeScript and JavaScript files, including functions nested in other functions.",
+    inputSchema: z.object({
+      name: z.string().describe("The exact name of the symbol"),
+      dir: z.string().optional().describe("The directory to search in, defaults to the current directory"),
+      max_results: z.number().int().optional().describe("The maximum number of declarations, defaults to 100"),
+    }),
+  }),
+  webfetch: tool({
+    description: "Fetch a webpage, convert it to markdown, and get an AI summary based on a specific prompt.",
+    inputSchema: z.object({
+      url: z.string().describe("The URL of the webpage you want to fetch and analyze"),
+      prompt: z.string().describe("The specific question or instruction for summarizing the content"),
+    }),
+  }),
+  ls: tool({
+    description: "List files and directories in a tree structure with configurable depth.",
+    inputSchema: z.object({
+      path: z.string().optional().describe('The directory path to list, defaults to "."'),
+      depth: z.number().int().optional().describe("The maximum depth of recursion, defaults to 3"),
+    }),
+  }),
+};
+
+// executeTool works on string params, as parsed from XML attributes
+export function toToolParams(input: unknown): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries((input ?? {}) as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      params[key] = String(value);
+    }
+  }
+
+  return params;
+}
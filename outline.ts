@@ -0,0 +1,286 @@
+import ts from "typescript";
+import { extname, join } from "node:path";
+import { listFiles } from "./file-search";
+
+export type SymbolEntry = {
+  name: string;
+  kind: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  exported: boolean;
+  signature: string;
+  // Methods and properties of classes and interfaces
+  members: SymbolEntry[];
+};
+
+export type SymbolMatch = SymbolEntry & { file: string };
+
+// A declaration inside a function body or an object literal, with the name of what encloses it
+type NestedEntry = SymbolEntry & { container: string };
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ".ts": ts.ScriptKind.TS,
+  ".mts": ts.ScriptKind.TS,
+  ".cts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+  ".js": ts.ScriptKind.JS,
+  ".mjs": ts.ScriptKind.JS,
+  ".cjs": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+};
+
+// Signatures are one line, long types are cut
+const MAX_SIGNATURE_CHARS = 160;
+// Variable values up to this length are part of the signature
+const MAX_INITIALIZER_CHARS = 40;
+
+const printer = ts.createPrinter({ removeComments: true });
+
+export function isOutlineSupported(path: string) {
+  return extname(path) in SCRIPT_KINDS;
+}
+
+function parseSource(path: string, content: string) {
+  return ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[extname(path)]);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind) {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+}
+
+function oneLine(text: string) {
+  const line = text.replace(/\s+/g, " ").trim().replace(/[;{]$/, "").trim();
+  return line.length > MAX_SIGNATURE_CHARS ? `${line.slice(0, MAX_SIGNATURE_CHARS)}...` : line;
+}
+
+function variableSignature(node: ts.VariableDeclaration, source: ts.SourceFile) {
+  const initializer = node.initializer;
+  const name = node.name.getText(source);
+  const type = node.type ? `: ${node.type.getText(source)}` : "";
+
+  if (isFunctionExpression(initializer)) {
+    // Everything before the function body: "= async (a: string): Promise<void> =>"
+    const head = source.text.slice(initializer.getStart(source), initializer.body.getStart(source));
+    return `${name}${type} = ${head}`;
+  }
+
+  const value = initializer?.getText(source) ?? "";
+  return value && value.length <= MAX_INITIALIZER_CHARS && !value.includes("\n")
+    ? `${name}${type} = ${value}`
+    : `${name}${type}`;
+}
+
+function isFunctionExpression(node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return node !== undefined && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function variableKeyword(list: ts.VariableDeclarationList) {
+  if (list.flags & ts.NodeFlags.Const) return "const";
+  return list.flags & ts.NodeFlags.Let ? "let" : "var";
+}
+
+// Declaration text without its body or comments, on one line
+function signatureOf(node: ts.Node, source: ts.SourceFile) {
+  if (ts.isVariableDeclaration(node)) return oneLine(variableSignature(node, source));
+  if (ts.isPropertyAssignment(node) && isFunctionExpression(node.initializer)) {
+    return oneLine(source.text.slice(node.getStart(source), node.initializer.body.getStart(source)));
+  }
+  if (ts.isTypeAliasDeclaration(node)) return oneLine(printer.printNode(ts.EmitHint.Unspecified, node, source));
+
+  const body = (node as { body?: ts.Node }).body;
+  const start = node.getStart(source);
+  let end = node.getEnd();
+
+  if (body && (ts.isBlock(body) || ts.isModuleBlock(body))) {
+    end = body.getStart(source);
+  } else if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+    end = source.text.indexOf("{", node.name?.getEnd() ?? start);
+  }
+
+  return oneLine(source.text.slice(start, end));
+}
+
+function createEntry(node: ts.Node, name: string, kind: string, source: ts.SourceFile, exported: boolean): SymbolEntry {
+  return {
+    name,
+    kind,
+    startLine: source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1,
+    endLine: source.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    exported,
+    signature: signatureOf(node, source),
+    members: [],
+  };
+}
+
+function memberEntries(node: ts.ClassDeclaration | ts.InterfaceDeclaration, source: ts.SourceFile) {
+  const members: SymbolEntry[] = [];
+
+  for (const member of node.members) {
+    const name = member.name?.getText(source) ?? (ts.isConstructorDeclaration(member) ? "constructor" : undefined);
+    if (!name || hasModifier(member, ts.SyntaxKind.PrivateKeyword) || name.startsWith("#")) continue;
+
+    const kind = ts.isMethodDeclaration(member) || ts.isMethodSignature(member) || ts.isConstructorDeclaration(member)
+      ? "method"
+      : "property";
+    members.push(createEntry(member, name, kind, source, false));
+  }
+
+  return members;
+}
+
+// Entries for one statement, several for `const a = 1, b = 2`
+function statementEntries(statement: ts.Statement, source: ts.SourceFile): SymbolEntry[] {
+  const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+
+  if (ts.isFunctionDeclaration(statement)) {
+    return [createEntry(statement, statement.name?.text ?? "default", "function", source, exported)];
+  }
+
+  if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+    const kind = ts.isClassDeclaration(statement) ? "class" : "interface";
+    const entry = createEntry(statement, statement.name?.text ?? "default", kind, source, exported);
+    entry.members = memberEntries(statement, source);
+    return [entry];
+  }
+
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [createEntry(statement, statement.name.text, "type", source, exported)];
+  }
+
+  if (ts.isEnumDeclaration(statement)) {
+    return [createEntry(statement, statement.name.text, "enum", source, exported)];
+  }
+
+  if (ts.isModuleDeclaration(statement)) {
+    return [createEntry(statement, statement.name.getText(source), "namespace", source, exported)];
+  }
+
+  if (ts.isVariableStatement(statement)) {
+    const keyword = variableKeyword(statement.declarationList);
+
+    return statement.declarationList.declarations.map((declaration) => {
+      const kind = isFunctionExpression(declaration.initializer) ? "function" : keyword;
+      const entry = createEntry(declaration, declaration.name.getText(source), kind, source, exported);
+      entry.signature = `${exported ? "export " : ""}${keyword} ${entry.signature}`;
+      return entry;
+    });
+  }
+
+  if (ts.isExportAssignment(statement)) {
+    return [createEntry(statement, "default", "export", source, true)];
+  }
+
+  return [];
+}
+
+/**
+ * Top-level declarations of a TypeScript or JavaScript file, with the public
+ * members of its classes and interfaces.
+ */
+export function outlineSource(path: string, content: string): SymbolEntry[] {
+  const source = parseSource(path, content);
+  return source.statements.flatMap((statement) => statementEntries(statement, source));
+}
+
+export function formatOutline(entries: SymbolEntry[]) {
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    lines.push(`${entry.startLine}-${entry.endLine}: ${entry.signature}`);
+    for (const member of entry.members) {
+      lines.push(`  ${member.startLine}-${member.endLine}: ${member.signature}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// Name and kind of the declarations found below the top level, class members are already in the outline
+function nestedDeclaration(node: ts.Node): { name: string; kind: string } | undefined {
+  if (ts.isFunctionDeclaration(node) && node.name) return { name: node.name.text, kind: "function" };
+  if (ts.isClassDeclaration(node) && node.name) return { name: node.name.text, kind: "class" };
+  if (ts.isInterfaceDeclaration(node)) return { name: node.name.text, kind: "interface" };
+  if (ts.isTypeAliasDeclaration(node)) return { name: node.name.text, kind: "type" };
+  if (ts.isEnumDeclaration(node)) return { name: node.name.text, kind: "enum" };
+
+  if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && ts.isVariableDeclarationList(node.parent)) {
+    const kind = isFunctionExpression(node.initializer) ? "function" : variableKeyword(node.parent);
+    return { name: node.name.text, kind };
+  }
+
+  // Methods of object literals, like the objects returned by factory functions
+  const inObjectLiteral = ts.isObjectLiteralExpression(node.parent);
+  if (inObjectLiteral && ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+    return { name: node.name.text, kind: "method" };
+  }
+  if (inObjectLiteral && ts.isPropertyAssignment(node) && ts.isIdentifier(node.name) && isFunctionExpression(node.initializer)) {
+    return { name: node.name.text, kind: "method" };
+  }
+
+  return undefined;
+}
+
+// Name given to the declarations found inside a node, "createAgent" or "Agent.run"
+function containerName(node: ts.Node, parent: string | undefined) {
+  const name = (node as { name?: ts.Node }).name;
+  const named = ts.isFunctionLike(node) || ts.isClassLike(node) || ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node);
+  if (!named || !name || !ts.isIdentifier(name)) return parent;
+  return parent ? `${parent}.${name.text}` : name.text;
+}
+
+/**
+ * Declarations below the top level: functions and variables inside function
+ * bodies, and methods of object literals.
+ */
+function nestedEntries(source: ts.SourceFile): NestedEntry[] {
+  const entries: NestedEntry[] = [];
+
+  function visit(node: ts.Node, container: string | undefined) {
+    const declaration = nestedDeclaration(node);
+    if (declaration && container !== undefined) {
+      const entry = createEntry(node, declaration.name, declaration.kind, source, false);
+      if (ts.isVariableDeclaration(node)) entry.signature = `${variableKeyword(node.parent as ts.VariableDeclarationList)} ${entry.signature}`;
+      entries.push({ ...entry, container });
+    }
+    ts.forEachChild(node, (child) => visit(child, containerName(node, container)));
+  }
+
+  for (const statement of source.statements) {
+    ts.forEachChild(statement, (child) => visit(child, containerName(statement, undefined)));
+  }
+
+  return entries;
+}
+
+/**
+ * Declarations named `name` in the TypeScript and JavaScript files under `dir`:
+ * top-level ones, class or interface members and nested declarations.
+ */
+export async function findSymbol(dir: string, name: string, maxResults: number): Promise<SymbolMatch[]> {
+  const matches: SymbolMatch[] = [];
+
+  for (const file of (await listFiles(dir)).filter(isOutlineSupported)) {
+    const content = await Bun.file(join(dir, file)).text().catch(() => "");
+    // Parsing is the slow part, most files do not mention the name at all
+    if (!content.includes(name)) continue;
+
+    const source = parseSource(file, content);
+
+    for (const entry of source.statements.flatMap((statement) => statementEntries(statement, source))) {
+      if (entry.name === name) matches.push({ ...entry, file });
+
+      for (const member of entry.members) {
+        if (member.name === name) matches.push({ ...member, file, signature: `${entry.name}.${member.signature}` });
+      }
+    }
+
+    for (const { container, ...entry } of nestedEntries(source)) {
+      if (entry.name === name) matches.push({ ...entry, file, signature: `${entry.signature} (in ${container})` });
+    }
+
+    if (matches.length >= maxResults) return matches.slice(0, maxResults);
+  }
+
+  return matches;
+}
@@ -0,0 +1,88 @@
+import { rmSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export type OutputConfig = {
+  // Characters of a tool output sent to the model, for tools missing from `tools`
+  defaultMaxChars: number;
+  tools: Record<string, number>;
+};
+
+export const defaultOutputConfig: OutputConfig = {
+  defaultMaxChars: 20_000,
+  tools: { bash: 30_000, readfile: 100_000 },
+};
+
+export type ScratchDir = ReturnType<typeof createScratchDir>;
+
+// readfile pages through files itself, spilling its output to a file it would read again makes no sense
+const NO_SPILL_TOOLS = new Set(["readfile"]);
+
+// Scratch directories created by this process, removed when it exits
+const createdDirs = new Set<string>();
+
+process.on("exit", () => {
+  for (const dir of createdDirs) rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Temporary directory of the session where full tool outputs are saved when
+ * they are too long for the model. The agent adds it to the workspace, so the
+ * model can read them back with readfile. It is only created by the first
+ * save, and removed when the process exits.
+ */
+export function createScratchDir() {
+  const dir = join(tmpdir(), `agent-scratch-${process.pid}-${Math.random().toString(36).slice(2, 8)}`);
+  let count = 0;
+
+  return {
+    dir,
+    async save(toolName: string, content: string) {
+      if (!createdDirs.has(dir)) {
+        await mkdir(dir, { recursive: true });
+        createdDirs.add(dir);
+      }
+
+      const path = join(dir, `${++count}-${toolName}.txt`);
+      await Bun.write(path, content);
+      return path;
+    },
+  };
+}
+
+// Cuts at line boundaries when there is one close enough, so the model never sees half a line
+function cutHeadTail(output: string, maxChars: number) {
+  const half = Math.floor(maxChars / 2);
+  let head = output.slice(0, half);
+  let tail = output.slice(-half);
+
+  const headBreak = head.lastIndexOf("\n");
+  if (headBreak > half * 0.8) head = head.slice(0, headBreak + 1);
+
+  const tailBreak = tail.indexOf("\n");
+  if (tailBreak !== -1 && tailBreak < half * 0.2) tail = tail.slice(tailBreak + 1);
+
+  return { head, tail, cut: output.length - head.length - tail.length };
+}
+
+/**
+ * Keeps a tool output under the limit of its tool: the start and the end are
+ * kept around a marker, and the full output is saved to the scratch directory.
+ */
+export async function applyOutputPolicy(toolName: string, output: string, config: OutputConfig, scratch: ScratchDir) {
+  const maxChars = config.tools[toolName] ?? config.defaultMaxChars;
+  if (output.length <= maxChars) return { output, spilledTo: undefined };
+
+  const { head, tail, cut } = cutHeadTail(output, maxChars);
+  const lines = output.split("\n").length;
+
+  if (NO_SPILL_TOOLS.has(toolName)) {
+    const marker = `... [${cut} characters truncated, read a smaller range with offset and limit] ...`;
+    return { output: `${head}\n${marker}\n${tail}`, spilledTo: undefined };
+  }
+
+  const path = await scratch.save(toolName, output);
+  const marker = `... [${cut} characters truncated. The full output (${lines} lines) is saved in ${path}, use readfile with offset and limit or grep on it to see the rest] ...`;
+  return { output: `${head}\n${marker}\n${tail}`, spilledTo: path };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { diffFiles, formatUnifiedDiff } from "./diff";
+import { applyFilePatch, parsePatch, PatchParseError } from "./patch";
+
+function roundTrip(oldText: string, newText: string, context: number) {
+  const patch = parsePatch(formatUnifiedDiff("file.txt", diffFiles(oldText, newText, context)))[0];
+  return applyFilePatch(patch, oldText);
+}
+
+const file = "one\ntwo\nthree\nfour\nfive\n";
+
+function apply(patchText: string, content: string | null) {
+  return applyFilePatch(parsePatch(patchText)[0], content);
+}
+
+describe("parsePatch", () => {
+  test("reads several files, creations and deletions", () => {
+    const patches = parsePatch(
+      [
+        "diff --git a/a.txt b/a.txt",
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -1,2 +1,2 @@",
+        " one",
+        "-two",
+        "+2",
+        "--- /dev/null",
+        "+++ b/new.txt",
+        "@@ -0,0 +1 @@",
+        "+hello",
+        "--- a/old.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-bye",
+      ].join("\n")
+    );
+
+    expect(patches.map((patch) => [patch.oldPath, patch.newPath])).toEqual([
+      ["a.txt", "a.txt"],
+      [null, "new.txt"],
+      ["old.txt", null],
+    ]);
+    expect(patches[0].hunks[0].oldStart).toBe(1);
+  });
+
+  test("rejects patches without file header or changes", () => {
+    expect(() => parsePatch("@@ -1 +1 @@\n-a\n+b")).toThrow(PatchParseError);
+    expect(() => parsePatch("just text")).toThrow("no file header found");
+    expect(() => parsePatch("--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n a")).toThrow("has no + or - lines");
+  });
+});
+
+describe("applyFilePatch", () => {
+  test("applies hunks with wrong line numbers and notes the offset", () => {
+    const result = apply("--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n three\n-four\n+4\n five", file);
+
+    expect(result.failures).toEqual([]);
+    expect(result.content).toBe("one\ntwo\nthree\n4\nfive\n");
+    expect(result.notes).toEqual(["hunk 1 applied 2 lines below its line number"]);
+  });
+
+  test("applies bare @@ hunks and ignores indentation differences", () => {
+    const result = apply("--- a/f\n+++ b/f\n@@\n   two\n-  three\n+3", file);
+
+    expect(result.content).toBe("one\ntwo\n3\nfour\nfive\n");
+    expect(result.notes).toHaveLength(1);
+  });
+
+  test("keeps CRLF line endings", () => {
+    const result = apply("--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n one\n-two\n+2", "one\r\ntwo\r\n");
+
+    expect(result.content).toBe("one\r\n2\r\n");
+  });
+
+  test("reports the lines it could not find", () => {
+    const result = apply("--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n one\n-zwei\n+2", file);
+
+    expect(result.failures).toEqual([
+      { hunk: 1, header: "@@ -1,2 +1,2 @@", reason: "these lines were not found in the file:\n  one\n  zwei" },
+    ]);
+  });
+
+  test("creates and deletes files", () => {
+    expect(apply("--- /dev/null\n+++ b/f\n@@ -0,0 +1 @@\n+hello", null).content).toBe("hello\n");
+    expect(apply("--- /dev/null\n+++ b/f\n@@ -0,0 +1 @@\n+hello", "x").failures).toHaveLength(1);
+    expect(apply("--- a/f\n+++ /dev/null\n@@ -1 +0,0 @@\n-bye", "bye\n")).toEqual({ content: null, failures: [], notes: [] });
+    expect(apply("--- a/f\n+++ b/f\n@@ -1 +1 @@\n-a\n+b", null).failures[0].reason).toBe("file not found");
+  });
+});
+
+describe("final newline", () => {
+  test("removing the last line without newline keeps the newline of the line before", () => {
+    const result = roundTrip("a\nb\nc", "a\nb\n", 0);
+
+    expect(result.failures).toEqual([]);
+    expect(result.content).toBe("a\nb\n");
+  });
+
+  test("diff, format and apply give back the new text", () => {
+    // Small deterministic generator, enough lines to get hunks at both ends
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const text = () => {
+      const lines = Array.from({ length: Math.floor(random() * 6) }, () => "abc"[Math.floor(random() * 3)]);
+      return lines.length > 0 && random() < 0.5 ? `${lines.join("\n")}\n` : lines.join("\n");
+    };
+
+    for (let i = 0; i < 2000; i++) {
+      const [oldText, newText] = [text(), text()];
+      if (oldText === "" || oldText === newText) continue;
+
+      const result = roundTrip(oldText, newText, Math.floor(random() * 4));
+      expect({ oldText, newText, content: result.content }).toEqual({ oldText, newText, content: newText });
+    }
+  });
+});
@@ -0,0 +1,295 @@
+import type { DiffLine } from "./diff";
+
+export type PatchHunk = {
+  // Header line as written, for error reports
+  header: string;
+  // Line where the hunk starts in the old file, missing for a bare "@@"
+  oldStart?: number;
+  lines: DiffLine[];
+};
+
+export type FilePatch = {
+  // null for /dev/null: the file is created, or deleted for newPath
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+};
+
+export type HunkFailure = { hunk: number; header: string; reason: string };
+
+export type PatchResult = {
+  // null when the file is deleted
+  content: string | null;
+  failures: HunkFailure[];
+  // Hunks that needed fuzz or landed away from their line number
+  notes: string[];
+};
+
+export class PatchParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Invalid patch at line ${line}: ${message}`);
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// Tried in order until the hunk matches, models often get whitespace slightly wrong
+const FUZZ_LEVELS = [
+  { name: "", normalize: (line: string) => line },
+  { name: "ignoring trailing whitespace", normalize: (line: string) => line.trimEnd() },
+  { name: "ignoring indentation", normalize: (line: string) => line.trim() },
+];
+
+// Context lines that may be dropped at each end of a hunk when it does not match
+const MAX_CONTEXT_FUZZ = 2;
+
+// Lines shown back to the model when a hunk is not found
+const MAX_FAILURE_LINES = 10;
+
+function parsePath(header: string) {
+  // Drops the timestamp diff -u puts after a tab
+  const path = header.slice(4).split("\t")[0].trim();
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+}
+
+function isFileHeader(lines: string[], index: number) {
+  return lines[index].startsWith("--- ") && lines[index + 1]?.startsWith("+++ ");
+}
+
+// Hunk line counts are ignored, models often get them wrong: a hunk ends at the first line that cannot be part of it
+function readHunk(lines: string[], start: number, hunks: PatchHunk[]) {
+  const header = lines[start];
+  const match = HUNK_HEADER.exec(header);
+  const hunk: PatchHunk = { header, oldStart: match ? Number(match[1]) : undefined, lines: [] };
+  let index = start + 1;
+  // Blank lines at the end of a hunk are separators, not context
+  let trailingBlanks = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.startsWith("@@") || line.startsWith("diff ") || isFileHeader(lines, index)) break;
+
+    trailingBlanks = line === "" ? trailingBlanks + 1 : 0;
+
+    if (line.startsWith("\\")) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.newline = false;
+    } else if (line.startsWith("+")) {
+      hunk.lines.push({ type: "add", text: line.slice(1), newline: true });
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "remove", text: line.slice(1), newline: true });
+    } else if (line.startsWith(" ") || line === "") {
+      // Editors and models often strip the space of empty context lines
+      hunk.lines.push({ type: "context", text: line.slice(1), newline: true });
+    } else {
+      break;
+    }
+  }
+
+  hunk.lines.splice(hunk.lines.length - trailingBlanks);
+
+  if (!hunk.lines.some((line) => line.type !== "context")) {
+    throw new PatchParseError(`hunk "${header}" has no + or - lines`, start + 1);
+  }
+
+  hunks.push(hunk);
+  return index;
+}
+
+/**
+ * Parses a unified diff of one or more files, as produced by `diff -u` or
+ * `git diff`. Hunks may use a bare "@@" header without line numbers.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replaceAll("\r\n", "\n").split("\n");
+  const patches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let index = 0;
+
+  while (index < lines.length) {
+    if (isFileHeader(lines, index)) {
+      current = { oldPath: parsePath(lines[index]), newPath: parsePath(lines[index + 1]), hunks: [] };
+
+      if (current.oldPath === null && current.newPath === null) {
+        throw new PatchParseError("both file paths are /dev/null", index + 1);
+      }
+
+      patches.push(current);
+      index += 2;
+    } else if (lines[index].startsWith("@@")) {
+      if (!current) {
+        throw new PatchParseError("hunk before any file header, start each file with --- a/path and +++ b/path lines", index + 1);
+      }
+      index = readHunk(lines, index, current.hunks);
+    } else {
+      // diff --git, index lines and any text around the patch
+      index++;
+    }
+  }
+
+  if (patches.length === 0) {
+    throw new PatchParseError("no file header found, start each file with --- a/path and +++ b/path lines", 1);
+  }
+
+  for (const patch of patches) {
+    if (patch.hunks.length === 0 && patch.newPath !== null) {
+      throw new PatchParseError(`no hunk for ${patch.newPath}`, 1);
+    }
+  }
+
+  return patches;
+}
+
+export function patchedPaths(patch: FilePatch) {
+  return [...new Set([patch.oldPath, patch.newPath].filter((path): path is string => path !== null))];
+}
+
+function findLines(fileLines: string[], wanted: string[], from: number, hint: number, normalize: (line: string) => string) {
+  const target = wanted.map(normalize);
+  let best = -1;
+
+  for (let start = from; start + target.length <= fileLines.length; start++) {
+    let matches = true;
+    for (let i = 0; i < target.length && matches; i++) {
+      matches = normalize(fileLines[start + i]) === target[i];
+    }
+
+    // The closest match to the line number of the header wins
+    if (matches && (best === -1 || Math.abs(start - hint) < Math.abs(best - hint))) {
+      best = start;
+    }
+  }
+
+  return best;
+}
+
+// Drops up to `fuzz` context lines at each end of the hunk
+function trimContext(lines: DiffLine[], fuzz: number) {
+  let start = 0;
+  let end = lines.length;
+
+  while (start < fuzz && lines[start].type === "context") start++;
+  while (lines.length - end < fuzz && end > start && lines[end - 1].type === "context") end--;
+
+  return { lines: lines.slice(start, end), skipped: start };
+}
+
+function locateHunk(fileLines: string[], hunk: PatchHunk, from: number, hint: number) {
+  for (let fuzz = 0; fuzz <= MAX_CONTEXT_FUZZ; fuzz++) {
+    const trimmed = trimContext(hunk.lines, fuzz);
+    if (fuzz > 0 && trimmed.lines.length === hunk.lines.length) break;
+
+    const oldLines = trimmed.lines.filter((line) => line.type !== "add").map((line) => line.text);
+
+    for (const level of FUZZ_LEVELS) {
+      const index = findLines(fileLines, oldLines, from, hint + trimmed.skipped, level.normalize);
+      if (index === -1) continue;
+
+      const fuzzNotes = [level.name, fuzz > 0 ? `without ${fuzz} context lines at its ends` : ""].filter(Boolean);
+      return { index, lines: trimmed.lines, fuzz: fuzzNotes.join(", ") };
+    }
+  }
+
+  return undefined;
+}
+
+function describeMissing(hunk: PatchHunk) {
+  const expected = hunk.lines.filter((line) => line.type !== "add").map((line) => `  ${line.text}`);
+  const shown = expected.slice(0, MAX_FAILURE_LINES);
+  if (expected.length > shown.length) shown.push(`  ... ${expected.length - shown.length} more lines`);
+  return `these lines were not found in the file:\n${shown.join("\n")}`;
+}
+
+/**
+ * Applies the hunks of one file to its current content (null when it does not
+ * exist). Nothing is written: a result with failures must be discarded.
+ */
+export function applyFilePatch(patch: FilePatch, content: string | null): PatchResult {
+  const failures: HunkFailure[] = [];
+  const notes: string[] = [];
+
+  if (patch.oldPath === null && content !== null) {
+    return { content, failures: [{ hunk: 0, header: "", reason: "the file already exists, patch it instead of creating it" }], notes };
+  }
+  if (patch.oldPath !== null && content === null) {
+    return { content, failures: [{ hunk: 0, header: "", reason: "file not found" }], notes };
+  }
+
+  if (patch.newPath === null && patch.hunks.length === 0) {
+    return { content: null, failures, notes };
+  }
+
+  const crlf = content?.includes("\r\n") ?? false;
+  const text = crlf ? content!.replaceAll("\r\n", "\n") : content ?? "";
+  const fileLines = text.split("\n");
+  let finalNewline = text === "" || text.endsWith("\n");
+  if (text.endsWith("\n") || text === "") fileLines.pop();
+
+  // Where the next hunk may start, and how much earlier hunks shifted line numbers
+  let from = 0;
+  let shift = 0;
+
+  patch.hunks.forEach((hunk, i) => {
+    const number = i + 1;
+    const pureInsertion = hunk.lines.every((line) => line.type === "add");
+    const hint = hunk.oldStart === undefined ? from : Math.max(0, hunk.oldStart - 1 + shift);
+    let located: ReturnType<typeof locateHunk>;
+
+    if (pureInsertion) {
+      // "@@ -5,0 +6,2 @@" inserts after line 5, a new or empty file has no line to match
+      if (fileLines.length > 0 && hunk.oldStart === undefined) {
+        failures.push({ hunk: number, header: hunk.header, reason: "the hunk has no context lines, add a few unchanged lines around the change" });
+        return;
+      }
+      const index = fileLines.length === 0 ? 0 : Math.min(hunk.oldStart! + shift, fileLines.length);
+      located = { index, lines: hunk.lines, fuzz: "" };
+    } else {
+      located = locateHunk(fileLines, hunk, from, hint);
+    }
+
+    if (!located) {
+      failures.push({ hunk: number, header: hunk.header, reason: describeMissing(hunk) });
+      return;
+    }
+
+    // Context keeps the file's own text, which differs from the patch after whitespace fuzz
+    const replacement: string[] = [];
+    let oldIndex = located.index;
+    for (const line of located.lines) {
+      if (line.type === "context") replacement.push(fileLines[oldIndex++]);
+      else if (line.type === "remove") oldIndex++;
+      else replacement.push(line.text);
+    }
+
+    const removedCount = oldIndex - located.index;
+    const reachesEnd = oldIndex === fileLines.length;
+    fileLines.splice(located.index, removedCount, ...replacement);
+
+    if (reachesEnd) {
+      const lastNew = [...located.lines].reverse().find((line) => line.type !== "remove");
+      // Without one, the new last line is a line kept before the hunk, which ends with a newline
+      finalNewline = lastNew ? lastNew.newline : true;
+    }
+
+    const offset = located.index - hint;
+    if (located.fuzz) notes.push(`hunk ${number} applied ${located.fuzz}`);
+    else if (hunk.oldStart !== undefined && offset !== 0 && !pureInsertion) {
+      notes.push(`hunk ${number} applied ${Math.abs(offset)} lines ${offset > 0 ? "below" : "above"} its line number`);
+    }
+
+    from = located.index + replacement.length;
+    shift += replacement.length - removedCount;
+  });
+
+  if (failures.length > 0 || patch.newPath === null) {
+    if (failures.length === 0 && fileLines.length > 0) {
+      failures.push({ hunk: 0, header: "", reason: `the file is deleted but ${fileLines.length} lines are not removed by the patch` });
+    }
+    return { content: null, failures, notes };
+  }
+
+  const joined = fileLines.join("\n") + (finalNewline && fileLines.length > 0 ? "\n" : "");
+  return { content: crlf ? joined.replaceAll("\n", "\r\n") : joined, failures, notes };
+}
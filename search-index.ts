@@ -0,0 +1,252 @@
+import { stat } from "node:fs/promises";
+import { join } from "node:path";
+import { listFiles, readSearchable } from "./file-search";
+
+type Chunk = {
+  file: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  terms: Map<string, number>;
+  length: number;
+};
+
+export type SearchHit = {
+  file: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  // Lines of the chunk that contain the most query terms
+  snippet: { line: number; text: string }[];
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// Files are indexed by chunks of lines, so a hit points to a region instead of a whole file
+const CHUNK_LINES = 20;
+// Bounds the memory of the index on huge workspaces
+const MAX_INDEXED_FILES = 5000;
+const SNIPPET_LINES = 3;
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "if", "in",
+  "is", "it", "of", "on", "or", "the", "this", "to", "we", "what", "where", "which", "who", "with",
+]);
+
+// "formatFileSize" gives "format", "file", "size" and "formatfilesize"
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_$]+/)
+      .filter(Boolean);
+
+    for (const part of parts) tokens.push(normalizeToken(part));
+    if (parts.length > 1) tokens.push(normalizeToken(word.replace(/[_$]/g, "")));
+  }
+
+  return tokens.filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// Only plurals are folded: "sizes" finds "size"
+function normalizeToken(token: string) {
+  const lower = token.toLowerCase();
+  return lower.length > 3 && lower.endsWith("s") && !lower.endsWith("ss") ? lower.slice(0, -1) : lower;
+}
+
+// "format file sizes" also looks for "formatfile", "filesize" and "formatfilesize", the tokens of formatFileSize
+function queryTerms(query: string) {
+  const words = tokenize(query);
+  const terms = new Set(words);
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = 2; n <= 3 && i + n <= words.length; n++) {
+      terms.add(words.slice(i, i + n).join(""));
+    }
+  }
+
+  return terms;
+}
+
+function countTerms(tokens: string[]) {
+  const terms = new Map<string, number>();
+  for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1);
+  return terms;
+}
+
+function chunkFile(file: string, content: string): Chunk[] {
+  const lines = content.split("\n");
+  if (content.endsWith("\n")) lines.pop();
+  // Every chunk of a file matches the words of its path
+  const pathTokens = tokenize(file);
+  const chunks: Chunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const chunkLines = lines.slice(start, start + CHUNK_LINES);
+    const tokens = [...pathTokens, ...tokenize(chunkLines.join("\n"))];
+    if (tokens.length === pathTokens.length) continue;
+
+    chunks.push({
+      file,
+      startLine: start + 1,
+      endLine: start + chunkLines.length,
+      lines: chunkLines,
+      terms: countTerms(tokens),
+      length: tokens.length,
+    });
+  }
+
+  return chunks;
+}
+
+function bestLines(chunk: Chunk, terms: Set<string>) {
+  return chunk.lines
+    .map((text, i) => ({
+      line: chunk.startLine + i,
+      text,
+      hits: new Set(tokenize(text).filter((token) => terms.has(token))).size,
+    }))
+    .filter((line) => line.hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.line - b.line)
+    .slice(0, SNIPPET_LINES)
+    .sort((a, b) => a.line - b.line)
+    .map(({ line, text }) => ({ line, text: text.trim() }));
+}
+
+/**
+ * BM25 index of the text files of `root`, skipping ignored files. `refresh`
+ * reindexes only the files whose modification time changed since the last one.
+ */
+export function createSearchIndex(root: string) {
+  const chunksByFile = new Map<string, Chunk[]>();
+  const mtimes = new Map<string, number>();
+  // Number of chunks containing each term
+  const documentFrequency = new Map<string, number>();
+  let chunkCount = 0;
+  let totalLength = 0;
+  let refreshing: Promise<void> | undefined;
+  // Pass started once the running one ends
+  let queued: Promise<void> | undefined;
+
+  function removeFile(file: string) {
+    for (const chunk of chunksByFile.get(file) ?? []) {
+      for (const term of chunk.terms.keys()) {
+        const count = documentFrequency.get(term)! - 1;
+        if (count === 0) documentFrequency.delete(term);
+        else documentFrequency.set(term, count);
+      }
+      chunkCount--;
+      totalLength -= chunk.length;
+    }
+
+    chunksByFile.delete(file);
+    mtimes.delete(file);
+  }
+
+  function addFile(file: string, content: string, mtime: number) {
+    const chunks = chunkFile(file, content);
+
+    for (const chunk of chunks) {
+      for (const term of chunk.terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+      chunkCount++;
+      totalLength += chunk.length;
+    }
+
+    chunksByFile.set(file, chunks);
+    mtimes.set(file, mtime);
+  }
+
+  async function updateFiles() {
+    const files = (await listFiles(root)).slice(0, MAX_INDEXED_FILES);
+    const present = new Set(files);
+
+    for (const file of chunksByFile.keys()) {
+      if (!present.has(file)) removeFile(file);
+    }
+
+    for (const file of files) {
+      const mtime = await stat(join(root, file)).then((stats) => stats.mtimeMs, () => undefined);
+      if (mtime === undefined) {
+        removeFile(file);
+        continue;
+      }
+      if (mtimes.get(file) === mtime) continue;
+
+      removeFile(file);
+      const content = await readSearchable(join(root, file));
+      // Binary and huge files are remembered so they are not read again
+      if (content === undefined) mtimes.set(file, mtime);
+      else addFile(file, content, mtime);
+    }
+  }
+
+  // Calls during a pass share the next one: the running pass may have visited files before they were written
+  function refresh(): Promise<void> {
+    if (refreshing) {
+      queued ??= refreshing
+        .catch(() => {})
+        .then(() => {
+          queued = undefined;
+          return refresh();
+        });
+      return queued;
+    }
+
+    refreshing = updateFiles().finally(() => {
+      refreshing = undefined;
+    });
+    return refreshing;
+  }
+
+  async function search(query: string, maxResults: number): Promise<SearchHit[]> {
+    await refresh();
+
+    const terms = queryTerms(query);
+    const averageLength = totalLength / Math.max(chunkCount, 1);
+    const hits: SearchHit[] = [];
+
+    for (const chunks of chunksByFile.values()) {
+      for (const chunk of chunks) {
+        let score = 0;
+
+        for (const term of terms) {
+          const frequency = chunk.terms.get(term);
+          if (!frequency) continue;
+
+          const df = documentFrequency.get(term)!;
+          const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+          score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * chunk.length) / averageLength)));
+        }
+
+        if (score > 0) {
+          hits.push({ file: chunk.file, startLine: chunk.startLine, endLine: chunk.endLine, score, snippet: [] });
+        }
+      }
+    }
+
+    const top = hits.sort((a, b) => b.score - a.score).slice(0, maxResults);
+
+    for (const hit of top) {
+      const chunk = chunksByFile.get(hit.file)!.find((candidate) => candidate.startLine === hit.startLine)!;
+      hit.snippet = bestLines(chunk, terms);
+    }
+
+    return top;
+  }
+
+  return {
+    refresh,
+    search,
+    stats: () => ({ files: chunksByFile.size, chunks: chunkCount, terms: documentFrequency.size }),
+  };
+}
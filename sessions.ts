@@ -0,0 +1,189 @@
+import { appendFile, mkdir, readdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { LanguageModel, ModelMessage } from "ai";
+
+export type SessionConfig = {
+  // Where session files are written, one JSONL file per session
+  dir: string;
+};
+
+export const defaultSessionConfig: SessionConfig = {
+  dir: join(homedir(), ".agent", "sessions"),
+};
+
+export type SessionInfo = {
+  id: string;
+  // Working directory the session was started in
+  cwd: string;
+  protocol: string;
+  model: string;
+  createdAt: string;
+};
+
+// One line of a session file. A "reset" drops the messages before it, it is written after a compaction
+export type SessionEntry =
+  | ({ type: "session" } & SessionInfo)
+  | { type: "message"; time: string; prompt?: true; model?: string; message: ModelMessage }
+  | { type: "reset"; time: string };
+
+export type SavedMessage = { message: ModelMessage; prompt: boolean };
+
+export type SessionSummary = SessionInfo & {
+  updatedAt: string;
+  turns: number;
+  // First user prompt
+  preview: string;
+};
+
+export type Session = ReturnType<typeof createSessionLog>;
+
+const PREVIEW_CHARS = 60;
+
+// "20261019-142503-k3f9", sorts by creation time
+function createSessionId() {
+  const time = new Date().toISOString().slice(0, 19).replace(/-|:/g, "").replace("T", "-");
+  return `${time}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Provider ids look like "openai.responses", only the provider part is kept
+export function modelName(model: LanguageModel) {
+  if (typeof model === "string") return model;
+  return `${model.provider.split(".")[0]}:${model.modelId}`;
+}
+
+export function preview(text: string) {
+  const line = text.trim().split("\n")[0];
+  return line.length > PREVIEW_CHARS ? `${line.slice(0, PREVIEW_CHARS)}...` : line;
+}
+
+// A crash while appending can leave a cut last line, it is skipped
+function parseEntries(content: string) {
+  const entries: SessionEntry[] = [];
+
+  for (const line of content.split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      continue;
+    }
+  }
+
+  return entries;
+}
+
+function replayMessages(entries: SessionEntry[]) {
+  let messages: SavedMessage[] = [];
+
+  for (const entry of entries) {
+    if (entry.type === "reset") messages = [];
+    if (entry.type === "message") messages.push({ message: entry.message, prompt: entry.prompt === true });
+  }
+
+  return messages;
+}
+
+/**
+ * Append-only log of a conversation. `save` writes the messages not written
+ * yet, or all of them after a "reset" entry when earlier ones were compacted.
+ */
+function createSessionLog(dir: string, header: SessionInfo, history: SavedMessage[], created: boolean) {
+  const path = join(dir, `${header.id}.jsonl`);
+  const saved = new WeakSet<ModelMessage>(history.map(({ message }) => message));
+
+  async function save(messages: ModelMessage[], options: { reset: boolean; model: string; isPrompt: (message: ModelMessage) => boolean }) {
+    const time = new Date().toISOString();
+    const entries: SessionEntry[] = [];
+
+    if (!created) entries.push({ type: "session", ...header });
+    if (options.reset) entries.push({ type: "reset", time });
+
+    for (const message of messages) {
+      // The system prompt is rebuilt on resume
+      if (message.role === "system" || (!options.reset && saved.has(message))) continue;
+      saved.add(message);
+
+      entries.push({
+        type: "message",
+        time,
+        ...(options.isPrompt(message) ? { prompt: true as const } : {}),
+        ...(message.role === "assistant" ? { model: options.model } : {}),
+        message,
+      });
+    }
+
+    // A new session is only written once it has messages, a cleared one still needs its reset
+    const hasMessages = entries.some((entry) => entry.type === "message");
+    if (!hasMessages && !(created && options.reset)) return;
+
+    await mkdir(dir, { recursive: true });
+    await appendFile(path, entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n");
+    created = true;
+  }
+
+  return { ...header, path, history, save };
+}
+
+// The file is created by the first save, sessions without a prompt leave nothing behind
+export function createSession(dir: string, info: Omit<SessionInfo, "id" | "createdAt">) {
+  return createSessionLog(dir, { id: createSessionId(), createdAt: new Date().toISOString(), ...info }, [], false);
+}
+
+async function readEntries(path: string) {
+  return parseEntries(await Bun.file(path).text());
+}
+
+function readHeader(entries: SessionEntry[]): SessionInfo | undefined {
+  const header = entries.find((entry) => entry.type === "session");
+  if (!header) return undefined;
+
+  const { id, cwd, protocol, model, createdAt } = header;
+  return { id, cwd, protocol, model, createdAt };
+}
+
+function summarize(entries: SessionEntry[]): SessionSummary | undefined {
+  const info = readHeader(entries);
+  if (!info) return undefined;
+
+  const prompts = entries.filter((entry) => entry.type === "message" && entry.prompt);
+  const first = prompts[0]?.type === "message" ? prompts[0].message.content : "";
+  const last = entries[entries.length - 1];
+
+  return {
+    ...info,
+    updatedAt: "time" in last ? last.time : info.createdAt,
+    // Counted like a resume loads them: a reset writes the kept prompts again
+    turns: replayMessages(entries).filter(({ prompt }) => prompt).length,
+    preview: typeof first === "string" ? preview(first) : "",
+  };
+}
+
+// Sessions of `cwd`, or of every directory when omitted, most recently updated first
+export async function listSessions(dir: string, cwd?: string): Promise<SessionSummary[]> {
+  const files = await readdir(dir).catch(() => []);
+  const sessions: SessionSummary[] = [];
+
+  for (const file of files.filter((name) => name.endsWith(".jsonl"))) {
+    const summary = summarize(await readEntries(join(dir, file)).catch(() => []));
+    if (summary && (cwd === undefined || summary.cwd === cwd)) sessions.push(summary);
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Accepts a unique prefix of the id, like the first characters shown by the session list
+export async function openSession(dir: string, id: string): Promise<Session> {
+  const files = (await readdir(dir).catch(() => [] as string[])).filter((name) => name.endsWith(".jsonl"));
+  const exact = files.find((name) => name === `${id}.jsonl`);
+  const matches = exact ? [exact] : files.filter((name) => name.startsWith(id));
+
+  if (matches.length === 0) throw new Error(`No session "${id}" in ${dir}`);
+  if (matches.length > 1) throw new Error(`Session id "${id}" is ambiguous, it matches ${matches.length} sessions`);
+
+  const entries = await readEntries(join(dir, matches[0]));
+  const info = readHeader(entries);
+  if (!info) throw new Error(`Invalid session file ${join(dir, matches[0])}: missing header`);
+
+  return createSessionLog(dir, info, replayMessages(entries), true);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { createToolTagStream } from "./tool-parser";
+import { parseTools, toolTagSpecs } from "./tools";
+
+describe("tool tags", () => {
+  test("reads attributes, bodies and child elements", () => {
+    const { tools, errors } = parseTools(
+      [
+        'Let me look. <readfile file="a &amp; b.ts" offset=\'3\' />',
+        '<writefile file="out.txt">\n<b>bold</b> &lt;kept&gt;\n</writefile>',
+        '<edit file="x.ts"><old>a < b</old><new>a <= b</new></edit>',
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(tools).toEqual([
+      { name: "readfile", params: { file: "a & b.ts", offset: "3" } },
+      { name: "writefile", params: { file: "out.txt", content: "<b>bold</b> &lt;kept&gt;\n" }, body: "<b>bold</b> &lt;kept&gt;\n" },
+      { name: "edit", params: { file: "x.ts", old: "a < b", new: "a <= b" }, children: { old: "a < b", new: "a <= b" } },
+    ]);
+  });
+
+  test("keeps backslash escapes in edit attributes", () => {
+    const { tools } = parseTools(String.raw`<edit file="a.ts" old='split("\n")' new='split(/\r?\n/)' />`);
+
+    expect(tools[0].params).toEqual({ file: "a.ts", old: String.raw`split("\n")`, new: String.raw`split(/\r?\n/)` });
+  });
+
+  test("ignores unknown tags and tags in prose", () => {
+    const { tools, errors } = parseTools("Use <div> or a < b, then <ls />");
+
+    expect(tools).toEqual([{ name: "ls", params: {} }]);
+    expect(errors).toEqual([]);
+  });
+
+  test("reports the position of malformed tags", () => {
+    const { errors } = parseTools('ok\n  <readfile />');
+
+    expect(errors).toEqual([{ name: "readfile", message: "missing required attribute: file", line: 2, column: 15 }]);
+  });
+});
+
+describe("streamed tool tags", () => {
+  test("returns each tag once, when its last chunk arrives", () => {
+    const stream = createToolTagStream(toolTagSpecs);
+    const text = 'First <ls />, then <bash command="bun test" />.';
+    const completed: string[][] = [];
+
+    for (let i = 0; i < text.length; i += 5) {
+      completed.push(stream.push(text.slice(i, i + 5)).map((tool) => tool.name));
+    }
+
+    expect(completed.flat()).toEqual(["ls", "bash"]);
+    // "<ls />" ends in the third chunk
+    expect(completed[2]).toEqual(["ls"]);
+  });
+
+  test("waits for the closing tag of a body", () => {
+    const stream = createToolTagStream(toolTagSpecs);
+
+    expect(stream.push('<writefile file="a.txt">\n<ls />\n')).toEqual([]);
+    expect(stream.push("</writefile>")).toEqual([
+      { name: "writefile", params: { file: "a.txt" }, body: "<ls />\n" },
+    ]);
+  });
+});
+
+describe("recovery after malformed tags", () => {
+  test("tags inside the body of a broken tag are not run", () => {
+    const { tools, errors } = parseTools('<writefile>\nhello <bash command="echo pwned" />\n</writefile>');
+
+    expect(tools).toEqual([]);
+    expect(errors.map((error) => error.message)).toEqual(["missing required attribute: file"]);
+  });
+
+  test("an unclosed body swallows the rest of the reply", () => {
+    const { tools, errors } = parseTools('<writefile file="a.txt">\n<bash command="rm -rf build" />\n');
+
+    expect(tools).toEqual([]);
+    expect(errors.map((error) => error.message)).toEqual(["missing closing tag </writefile>"]);
+  });
+
+  test("tags after the broken one are still parsed", () => {
+    const { tools, errors } = parseTools('<edit file="a"><old>x</old><old><bash command="x" /></old></edit>\n<ls />');
+
+    expect(tools).toEqual([{ name: "ls", params: {} }]);
+    expect(errors.map((error) => error.message)).toEqual(["duplicate <old> in <edit>"]);
+  });
+
+  test("a broken opening tag resumes inside it", () => {
+    const { tools, errors } = parseTools('<bash command="a" $> <ls />');
+
+    expect(tools).toEqual([{ name: "ls", params: {} }]);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,384 @@
+export type ParsedTool = {
+  name: string;
+  params: Record<string, string>;
+  body?: string;
+  // Values given as child elements, taken verbatim
+  children?: Record<string, string>;
+};
+
+export type ToolParseError = {
+  name: string;
+  message: string;
+  line: number;
+  column: number;
+};
+
+export type ToolTagSpec = {
+  required?: string[];
+  // Attribute that can be given as the tag body instead: <writefile file="x">...</writefile>
+  body?: string;
+  // Attributes that can be given as child elements instead: <edit file="x"><old>...</old></edit>
+  children?: string[];
+};
+
+export type ToolParseResult = {
+  tools: ParsedTool[];
+  errors: ToolParseError[];
+};
+
+const ENTITIES: Record<string, string> = {
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  amp: "&",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (raw, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? raw;
+  });
+}
+
+function lineColumn(text: string, offset: number) {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+class TagSyntaxError extends Error {
+  // Set when the text ended inside the tag, more streamed text may complete it
+  incomplete = false;
+
+  constructor(message: string, public offset: number) {
+    super(message);
+  }
+
+  static incomplete(message: string, offset: number) {
+    const error = new TagSyntaxError(message, offset);
+    error.incomplete = true;
+    return error;
+  }
+}
+
+const NAME_CHAR = /[\w.:-]/;
+const SPACE = /\s/;
+
+/**
+ * Small tokenizer for the tool-tag protocol. Only tags whose name is in
+ * `specs` are considered, everything else is treated as plain text.
+ */
+class TagScanner {
+  pos = 0;
+  // True between the ">" of an opening tag and its closing tag
+  inBody = false;
+
+  constructor(private text: string) {}
+
+  peek(length = 1) {
+    return this.text.slice(this.pos, this.pos + length);
+  }
+
+  eof() {
+    return this.pos >= this.text.length;
+  }
+
+  skipSpaces() {
+    while (!this.eof() && SPACE.test(this.text[this.pos])) this.pos++;
+  }
+
+  readName() {
+    const start = this.pos;
+    while (!this.eof() && NAME_CHAR.test(this.text[this.pos])) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  readQuoted(): string {
+    const quote = this.text[this.pos];
+    const start = this.pos;
+    this.pos++;
+    let value = "";
+
+    while (!this.eof()) {
+      const char = this.text[this.pos];
+      if (char === "\\" && this.pos + 1 < this.text.length) {
+        const next = this.text[this.pos + 1];
+        // Only the active quote is unescaped, other sequences are kept verbatim
+        value += next === quote ? quote : char + next;
+        this.pos += 2;
+        continue;
+      }
+      if (char === quote) {
+        this.pos++;
+        return decodeEntities(value);
+      }
+      value += char;
+      this.pos++;
+    }
+
+    throw TagSyntaxError.incomplete("unterminated attribute value", start);
+  }
+
+  readUnquoted(): string {
+    const start = this.pos;
+    while (!this.eof() && !SPACE.test(this.text[this.pos]) && this.peek() !== ">" && this.peek(2) !== "/>") {
+      this.pos++;
+    }
+    return decodeEntities(this.text.slice(start, this.pos));
+  }
+
+  readBody(name: string): string {
+    let body = "";
+
+    while (!this.eof()) {
+      if (this.peek(9) === "<![CDATA[") {
+        const end = this.text.indexOf("]]>", this.pos + 9);
+        if (end === -1) {
+          throw TagSyntaxError.incomplete("unterminated CDATA section", this.pos);
+        }
+        body += this.text.slice(this.pos + 9, end);
+        this.pos = end + 3;
+        continue;
+      }
+
+      if (this.readClosingTag(name)) {
+        return body.replace(/^\r?\n/, "");
+      }
+
+      body += this.text[this.pos];
+      this.pos++;
+    }
+
+    throw TagSyntaxError.incomplete(`missing closing tag </${name}>`, this.pos);
+  }
+
+  // Moves past the closing tag </name>, or to the end of the text when there is none
+  skipPastClosingTag(name: string) {
+    const closing = new RegExp(`</${name.replace(/\./g, "\\.")}\\s*>`, "g");
+    closing.lastIndex = this.pos;
+    this.pos = closing.exec(this.text) ? closing.lastIndex : this.text.length;
+  }
+
+  readClosingTag(name: string) {
+    const closing = `</${name}`;
+    const next = this.peek(closing.length);
+
+    if (next !== closing) {
+      // Streamed text can stop in the middle of the closing tag
+      if (next.length < closing.length && closing.startsWith(next) && next !== "") {
+        throw TagSyntaxError.incomplete(`missing closing tag </${name}>`, this.pos);
+      }
+      return false;
+    }
+
+    const start = this.pos;
+    this.pos += closing.length;
+    this.skipSpaces();
+    if (this.eof()) {
+      throw TagSyntaxError.incomplete(`missing closing tag </${name}>`, start);
+    }
+    if (this.peek() === ">") {
+      this.pos++;
+      return true;
+    }
+
+    this.pos = start;
+    return false;
+  }
+
+  readChildren(name: string, allowed: string[]): Record<string, string> {
+    const children: Record<string, string> = {};
+
+    while (true) {
+      this.skipSpaces();
+
+      if (this.eof()) {
+        throw TagSyntaxError.incomplete(`missing closing tag </${name}>`, this.pos);
+      }
+
+      if (this.readClosingTag(name)) {
+        return children;
+      }
+
+      const childStart = this.pos;
+      if (this.peek() !== "<") {
+        throw new TagSyntaxError(`unexpected text in <${name}>, expected ${allowed.map((child) => `<${child}>`).join(", ")}`, childStart);
+      }
+
+      this.pos++;
+      const child = this.readName();
+      if (this.eof()) {
+        throw TagSyntaxError.incomplete(`unterminated <${child}> tag`, childStart);
+      }
+      if (!allowed.includes(child) || this.peek() !== ">") {
+        throw new TagSyntaxError(`unexpected <${child}> in <${name}>, expected ${allowed.map((child) => `<${child}>`).join(", ")}`, childStart);
+      }
+      if (child in children) {
+        throw new TagSyntaxError(`duplicate <${child}> in <${name}>`, childStart);
+      }
+
+      this.pos++;
+      // Both the newline after <old> and the one before </old> are formatting
+      children[child] = this.readBody(child).replace(/\r?\n$/, "");
+    }
+  }
+}
+
+function parseTag(scanner: TagScanner, name: string, spec: ToolTagSpec): ParsedTool {
+  const params: Record<string, string> = {};
+  let body: string | undefined;
+  let children: Record<string, string> | undefined;
+
+  while (true) {
+    scanner.skipSpaces();
+
+    // A "/" ending the text may be the start of "/>"
+    if (scanner.eof() || scanner.peek(2) === "/") {
+      throw TagSyntaxError.incomplete(`unterminated <${name}> tag, expected "/>"`, scanner.pos);
+    }
+
+    if (scanner.peek(2) === "/>") {
+      scanner.pos += 2;
+      break;
+    }
+
+    if (scanner.peek() === ">") {
+      scanner.pos++;
+      scanner.inBody = true;
+      if (spec.children) {
+        children = scanner.readChildren(name, spec.children);
+      } else {
+        body = scanner.readBody(name);
+      }
+      scanner.inBody = false;
+      break;
+    }
+
+    const attributeStart = scanner.pos;
+    const attribute = scanner.readName();
+    if (!attribute) {
+      throw new TagSyntaxError(`unexpected character "${scanner.peek()}" in <${name}> tag`, scanner.pos);
+    }
+    if (attribute in params) {
+      throw new TagSyntaxError(`duplicate attribute "${attribute}"`, attributeStart);
+    }
+
+    scanner.skipSpaces();
+    if (scanner.peek() !== "=") {
+      // Bare attribute, e.g. <grep pattern="x" files_only />
+      params[attribute] = "true";
+      continue;
+    }
+
+    scanner.pos++;
+    scanner.skipSpaces();
+    const quote = scanner.peek();
+    params[attribute] = quote === '"' || quote === "'" ? scanner.readQuoted() : scanner.readUnquoted();
+  }
+
+  if (body !== undefined && !spec.body) {
+    throw new TagSyntaxError(`<${name}> does not accept body content, use a self-closing tag`, scanner.pos);
+  }
+
+  for (const child of Object.keys(children ?? {})) {
+    if (child in params) {
+      throw new TagSyntaxError(`"${child}" is given both as attribute and as <${child}>`, scanner.pos);
+    }
+  }
+
+  const missing = (spec.required ?? []).filter(
+    (attribute) =>
+      !(attribute in params) &&
+      !(attribute === spec.body && body !== undefined) &&
+      !(children && attribute in children)
+  );
+  if (missing.length > 0) {
+    throw new TagSyntaxError(`missing required attribute${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`, scanner.pos);
+  }
+
+  return {
+    name,
+    params,
+    ...(body !== undefined && { body }),
+    ...(children && { children }),
+  };
+}
+
+function scanToolTags(
+  text: string,
+  specs: Record<string, ToolTagSpec>,
+  from: number,
+  partial: boolean
+): ToolParseResult & { pos: number } {
+  const tools: ParsedTool[] = [];
+  const errors: ToolParseError[] = [];
+  const scanner = new TagScanner(text);
+  scanner.pos = from;
+
+  while (true) {
+    const start = text.indexOf("<", scanner.pos);
+    if (start === -1) break;
+
+    scanner.pos = start + 1;
+    const name = scanner.readName();
+    if (partial && scanner.eof()) {
+      return { tools, errors, pos: start };
+    }
+
+    const next = scanner.peek();
+    const isTag = Object.hasOwn(specs, name) && (next === "" || next === ">" || next === "/" || SPACE.test(next));
+
+    if (!isTag) {
+      scanner.pos = start + 1;
+      continue;
+    }
+
+    scanner.inBody = false;
+    try {
+      tools.push(parseTag(scanner, name, specs[name]));
+    } catch (error) {
+      if (!(error instanceof TagSyntaxError)) throw error;
+      if (partial && error.incomplete) {
+        return { tools, errors, pos: start };
+      }
+      errors.push({ name, message: error.message, ...lineColumn(text, error.offset) });
+      // Resume after what the broken tag consumed, tags written inside its body are content, not calls
+      if (scanner.inBody) scanner.skipPastClosingTag(name);
+      scanner.pos = Math.max(scanner.pos, start + 1);
+    }
+  }
+
+  return { tools, errors, pos: text.length };
+}
+
+export function parseToolTags(text: string, specs: Record<string, ToolTagSpec>): ToolParseResult {
+  const { tools, errors } = scanToolTags(text, specs, 0, false);
+  return { tools, errors };
+}
+
+/**
+ * Incremental variant for streamed output: `push` returns the tags completed
+ * by the new chunk, an unfinished tag at the end waits for the next chunks.
+ */
+export function createToolTagStream(specs: Record<string, ToolTagSpec>) {
+  let text = "";
+  let pos = 0;
+
+  return {
+    push(chunk: string): ParsedTool[] {
+      text += chunk;
+      const result = scanToolTags(text, specs, pos, true);
+      pos = result.pos;
+      return result.tools;
+    },
+  };
+}
+
+export function formatParseError(error: ToolParseError): string {
+  return `Malformed <${error.name}> tag at line ${error.line}, column ${error.column}: ${error.message}`;
+}
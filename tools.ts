@@ -0,0 +1,949 @@
+import { unlink } from "node:fs/promises";
+import { generateText, type LanguageModel } from "ai";
+import TurndownService from "turndown";
+import { parseToolTags, type ToolTagSpec } from "./tool-parser";
+import type { Permissions } from "./permissions";
+import { PathOutsideWorkspaceError, type ResolvedPath, type Workspace } from "./workspace";
+import type { CheckpointStore } from "./checkpoints";
+import type { ReadTracker } from "./read-tracker";
+import { colorizeDiff, diffFiles, formatDiffStats, formatUnifiedDiff } from "./diff";
+import { applyFilePatch, parsePatch } from "./patch";
+import { globFiles, grepFiles, isBinary, listTree, type GlobOptions, type GrepOptions } from "./file-search";
+import { findSymbol, formatOutline, isOutlineSupported, outlineSource } from "./outline";
+import type { SearchIndex } from "./search-index";
+import { applyOutputPolicy, type OutputConfig, type ScratchDir } from "./output-policy";
+
+export type ToolType = { name: string; params: Record<string, string> };
+
+export type ToolResult = { aiOutput: string; userOutput: string };
+
+// What tools need from the running agent
+export type ToolContext = {
+  summarizer: LanguageModel;
+  permissions: Permissions;
+  // File tools are confined to it, bash commands run in its root
+  workspace: Workspace;
+  bash: BashConfig;
+  // Previous content of every file the tools change
+  checkpoints: CheckpointStore;
+  // Files the model has read, the file tools refuse to change the others
+  reads: ReadTracker;
+  // Ranked search over the workspace files, kept up to date by the search tool
+  searchIndex: SearchIndex;
+  // Longer outputs are cut for the model and saved in full to the scratch directory
+  output: OutputConfig;
+  scratch: ScratchDir;
+  // Aborted when the user stops the turn, the running bash command is killed
+  signal?: AbortSignal;
+};
+
+export type BashConfig = {
+  // Default timeout, a call can ask for more up to MAX_BASH_TIMEOUT_SECONDS
+  timeoutSeconds: number;
+};
+
+export const defaultBashConfig: BashConfig = {
+  timeoutSeconds: 120,
+};
+
+const MAX_BASH_TIMEOUT_SECONDS = 600;
+// Output kept in memory, executeTool then decides how much the model sees
+const MAX_BASH_CAPTURE_CHARS = 5_000_000;
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+// Lines returned by a readfile without limit
+const DEFAULT_READ_LIMIT = 2000;
+// Longer lines (minified bundles) are cut
+const MAX_LINE_CHARS = 2000;
+// Larger files only return their metadata, bash tools like head or grep can look inside
+const MAX_READ_BYTES = 5 * 1024 * 1024;
+
+function numberLines(lines: string[], firstLine: number) {
+  const width = String(firstLine + lines.length - 1).length;
+
+  return lines
+    .map((line, i) => {
+      const text = line.length > MAX_LINE_CHARS
+        ? `${line.slice(0, MAX_LINE_CHARS)}... [${line.length - MAX_LINE_CHARS} characters truncated]`
+        : line;
+      return `${String(firstLine + i).padStart(width)}| ${text}`;
+    })
+    .join("\n");
+}
+
+async function readFile(filename: ResolvedPath, reads: ReadTracker, offset?: number, limit?: number) {
+  try {
+    const file = Bun.file(filename.absolute);
+
+    if (!(await file.exists())) {
+      throw new Error("file not found, use ls to list a directory");
+    }
+
+    const size = file.size;
+
+    if (size > MAX_READ_BYTES || (await isBinary(file))) {
+      const kind = size > MAX_READ_BYTES ? "too large to read" : "binary";
+      // Seen as far as writes go, or writefile would refuse it forever
+      await reads.record(filename);
+      return {
+        aiOutput: `File ${filename.relative} is ${kind} (${formatFileSize(size)}, type ${file.type}). Its content is not shown, use bash tools if you need to inspect it.`,
+        userOutput: `📄 ${filename.relative} (${kind}, ${formatFileSize(size)})`,
+      };
+    }
+
+    const content = await file.text();
+    await reads.record(filename, content);
+
+    if (content === "") {
+      return {
+        aiOutput: `File ${filename.relative} is empty.`,
+        userOutput: `📄 ${filename.relative} (empty)`,
+      };
+    }
+
+    const lines = content.split("\n");
+    if (content.endsWith("\n")) lines.pop();
+
+    const start = Math.max(1, offset || 1);
+    const count = Math.max(1, limit || DEFAULT_READ_LIMIT);
+    const selected = lines.slice(start - 1, start - 1 + count);
+    const end = start + selected.length - 1;
+
+    if (selected.length === 0) {
+      throw new Error(`offset ${start} is past the end of the file (${lines.length} lines)`);
+    }
+
+    const remaining = lines.length - end;
+    const note = remaining > 0
+      ? `\n... truncated, ${remaining} more lines. Read them with offset="${end + 1}".`
+      : "";
+    const range = start > 1 || remaining > 0 ? `lines ${start}-${end} of ${lines.length}, ` : "";
+
+    return {
+      aiOutput: numberLines(selected, start) + note,
+      userOutput: `📄 ${filename.relative} (${range}${formatFileSize(size)})`,
+    };
+  } catch (error) {
+    const errorMsg = `Error reading ${filename.relative}: ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+// Attribute values are single-line by convention, so the model escapes newlines and tabs
+function unescapeContent(content: string) {
+  return content
+    .replaceAll("\\n", "\n")
+    .replaceAll("\\t", "\t")
+    .replaceAll('\\"', '"');
+}
+
+// Diff lines shown in the terminal and sent to the model
+const USER_DIFF_LINES = 80;
+const AI_DIFF_LINES = 200;
+
+// Colored diff for the user, compact one (less context) for the model
+function describeChanges(filename: ResolvedPath, oldContent: string, newContent: string) {
+  const userDiff = diffFiles(oldContent, newContent);
+  const aiDiff = diffFiles(oldContent, newContent, 1);
+
+  return {
+    stats: formatDiffStats(userDiff),
+    userDiff: colorizeDiff(formatUnifiedDiff(filename.relative, userDiff, USER_DIFF_LINES)),
+    aiDiff: formatUnifiedDiff(filename.relative, aiDiff, AI_DIFF_LINES),
+  };
+}
+
+async function writeFile(
+  filename: ResolvedPath,
+  content: string,
+  checkpoints: CheckpointStore,
+  reads: ReadTracker
+) {
+  try {
+    const refusal = await reads.checkWrite(filename);
+    if (refusal) {
+      const errorMsg = `Error writing ${filename.relative}: ${refusal}.`;
+      return {
+        aiOutput: errorMsg,
+        userOutput: `🚫 writefile refused: ${refusal.split(". ")[0]}`,
+      };
+    }
+
+    const file = Bun.file(filename.absolute);
+    const existed = await file.exists();
+    const oldContent = existed ? await file.text() : "";
+
+    await Bun.write(filename.absolute, content);
+    await reads.record(filename, content);
+    const size = Bun.file(filename.absolute).size;
+
+    if (!existed || oldContent !== content) {
+      checkpoints.record(filename, existed ? oldContent : null, "writefile");
+    }
+
+    if (!existed) {
+      const lines = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+      return {
+        aiOutput: `File ${filename.relative} created (${lines} lines).`,
+        userOutput: `✅ ${filename.relative} created (${lines} lines, ${formatFileSize(size)})`,
+      };
+    }
+
+    if (oldContent === content) {
+      return {
+        aiOutput: `File ${filename.relative} written, the content is unchanged.`,
+        userOutput: `✅ ${filename.relative} unchanged (${formatFileSize(size)})`,
+      };
+    }
+
+    const changes = describeChanges(filename, oldContent, content);
+
+    return {
+      aiOutput: `File ${filename.relative} written successfully (${changes.stats}). Diff:\n${changes.aiDiff}`,
+      userOutput: `✅ ${filename.relative} written (${changes.stats}, ${formatFileSize(size)})\n${changes.userDiff}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error writing ${filename.relative}: ${error}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+function countOccurrences(content: string, search: string) {
+  let count = 0;
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+// Lines around the edited region, numbered like an editor
+function snippetAround(content: string, start: number, length: number, contextLines = 3) {
+  const lines = content.split("\n");
+  const firstLine = content.slice(0, start).split("\n").length - 1;
+  const lastLine = firstLine + content.slice(start, start + length).split("\n").length - 1;
+  const from = Math.max(0, firstLine - contextLines);
+  const to = Math.min(lines.length, lastLine + contextLines + 1);
+  const width = String(to).length;
+
+  return lines
+    .slice(from, to)
+    .map((line, i) => `${String(from + i + 1).padStart(width)}| ${line}`)
+    .join("\n");
+}
+
+async function editFile(
+  filename: ResolvedPath,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean,
+  checkpoints: CheckpointStore,
+  reads: ReadTracker
+) {
+  try {
+    const file = Bun.file(filename.absolute);
+
+    if (!(await file.exists())) {
+      throw new Error("file not found, use writefile to create it");
+    }
+
+    const refusal = await reads.checkWrite(filename);
+    if (refusal) {
+      return {
+        aiOutput: `Error editing ${filename.relative}: ${refusal}.`,
+        userOutput: `🚫 edit refused: ${refusal.split(". ")[0]}`,
+      };
+    }
+
+    if (oldString === "") {
+      throw new Error("old must not be empty, use writefile to create or overwrite a whole file");
+    }
+    if (oldString === newString) {
+      throw new Error("old and new are identical, nothing to change");
+    }
+
+    const content = await file.text();
+    const matches = countOccurrences(content, oldString);
+
+    if (matches === 0) {
+      throw new Error("old string not found. It must match the file exactly, including whitespace and indentation, read the file again to check");
+    }
+    if (matches > 1 && !replaceAll) {
+      throw new Error(`ambiguous, ${matches} matches for old string. Add surrounding lines to make it unique, or set replace_all to change every match`);
+    }
+
+    // split/join and slices keep "$" sequences of newString literal, unlike String.replace
+    const start = content.indexOf(oldString);
+    const updated = replaceAll
+      ? content.split(oldString).join(newString)
+      : content.slice(0, start) + newString + content.slice(start + oldString.length);
+
+    await Bun.write(filename.absolute, updated);
+    checkpoints.record(filename, content, "edit");
+    await reads.record(filename, updated);
+
+    const replacements = `${matches} replacement${matches > 1 ? "s" : ""}`;
+    const changes = describeChanges(filename, content, updated);
+
+    return {
+      aiOutput: `File ${filename.relative} edited (${replacements}, ${changes.stats}). ${matches > 1 ? "First edited region" : "Edited region"}:\n${snippetAround(updated, start, newString.length)}`,
+      userOutput: `✏️ ${filename.relative} edited (${replacements}, ${changes.stats})\n${changes.userDiff}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error editing ${filename.relative}: ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+type PendingFile = { path: ResolvedPath; before: string | null; after: string | null };
+
+async function applyPatch(patchText: string, workspace: Workspace, checkpoints: CheckpointStore, reads: ReadTracker) {
+  try {
+    const patches = parsePatch(patchText);
+    // Latest content per file, so several patches of the same file apply in order
+    const pending = new Map<string, PendingFile>();
+    const failures: string[] = [];
+    const notes: string[] = [];
+    let hunkCount = 0;
+
+    async function load(path: ResolvedPath) {
+      const known = pending.get(path.absolute);
+      if (known) return known;
+
+      const file = Bun.file(path.absolute);
+      const content = (await file.exists()) ? await file.text() : null;
+      const entry = { path, before: content, after: content };
+      pending.set(path.absolute, entry);
+      return entry;
+    }
+
+    for (const patch of patches) {
+      hunkCount += patch.hunks.length;
+      const source = patch.oldPath === null ? undefined : await load(await workspace.resolve(patch.oldPath));
+      const target = patch.newPath === null ? undefined : await load(await workspace.resolve(patch.newPath));
+      const name = patch.newPath ?? patch.oldPath!;
+
+      // A created file must not exist yet, a renamed one must not overwrite another file
+      if (target && source !== target && target.after !== null) {
+        failures.push(`${name}: the file already exists`);
+        continue;
+      }
+
+      const result = applyFilePatch(patch, source ? source.after : null);
+
+      for (const failure of result.failures) {
+        failures.push(failure.hunk === 0 ? `${name}: ${failure.reason}` : `${name}, hunk ${failure.hunk} (${failure.header}): ${failure.reason}`);
+      }
+      notes.push(...result.notes.map((note) => `${name}: ${note}`));
+
+      if (result.failures.length > 0) continue;
+      if (source) source.after = null;
+      if (target) target.after = result.content;
+    }
+
+    if (failures.length > 0) {
+      const failed = failures.length === 1 ? "1 problem" : `${failures.length} problems`;
+      const errorMsg = `Patch not applied, no file was changed (${failed} in ${hunkCount} hunks):\n${failures.join("\n")}\nRead the files again and send the whole corrected patch.`;
+      return {
+        aiOutput: errorMsg,
+        userOutput: `❌ Patch not applied (${failed})\n${failures.map((failure) => failure.split("\n")[0]).join("\n")}`,
+      };
+    }
+
+    const changed = [...pending.values()].filter((file) => file.before !== file.after);
+
+    // Like hunk failures, one file not read or changed on disk stops the whole patch
+    const refusals: string[] = [];
+    for (const file of changed) {
+      const refusal = await reads.checkWrite(file.path);
+      if (refusal) refusals.push(refusal);
+    }
+    if (refusals.length > 0) {
+      return {
+        aiOutput: `Patch not applied, no file was changed:\n${refusals.join(".\n")}.`,
+        userOutput: `🚫 apply_patch refused: ${refusals.map((refusal) => refusal.split(". ")[0]).join("\n")}`,
+      };
+    }
+
+    const summaries: string[] = [];
+    const userDiffs: string[] = [];
+
+    for (const file of changed) {
+      if (file.after === null) {
+        await unlink(file.path.absolute);
+      } else {
+        await Bun.write(file.path.absolute, file.after);
+        await reads.record(file.path, file.after);
+      }
+      checkpoints.record(file.path, file.before, "apply_patch");
+
+      const changes = describeChanges(file.path, file.before ?? "", file.after ?? "");
+      const status = file.before === null ? "A" : file.after === null ? "D" : "M";
+      summaries.push(`${status} ${file.path.relative} (${changes.stats})`);
+      userDiffs.push(changes.userDiff);
+    }
+
+    const applied = `Patch applied to ${changed.length} file${changed.length === 1 ? "" : "s"}`;
+    const noteText = notes.length > 0 ? `\nNotes:\n${notes.join("\n")}` : "";
+
+    return {
+      aiOutput: `${applied}:\n${summaries.join("\n")}${noteText}`,
+      userOutput: `🩹 ${applied}\n${summaries.join("\n")}\n${userDiffs.join("\n")}`,
+    };
+  } catch (error) {
+    if (error instanceof PathOutsideWorkspaceError) throw error;
+
+    const errorMsg = `Error applying patch: ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+function getTweet(tweet_id: string) {
+  const content = `Tweet ${tweet_id}: Hello je suis un super tweet de melvynxdev`;
+  return {
+    aiOutput: content,
+    userOutput: `🐦 Tweet ${tweet_id} retrieved`,
+  };
+}
+
+function createOutputBuffer(maxChars: number) {
+  // Keeps the start and the end of the output, the end usually holds the error
+  const half = Math.floor(maxChars / 2);
+  let head = "";
+  let tail = "";
+  let dropped = 0;
+
+  return {
+    append(text: string) {
+      if (head.length < half) {
+        const taken = text.slice(0, half - head.length);
+        head += taken;
+        text = text.slice(taken.length);
+      }
+
+      tail += text;
+      if (tail.length > half) {
+        dropped += tail.length - half;
+        tail = tail.slice(-half);
+      }
+    },
+    toString() {
+      return dropped > 0
+        ? `${head}\n... [${dropped} characters truncated] ...\n${tail}`
+        : head + tail;
+    },
+  };
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>, onText: (text: string) => void) {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onText(decoder.decode(value, { stream: true }));
+  }
+
+  onText(decoder.decode());
+}
+
+// Process groups of the running commands, killed if the agent exits first
+const runningGroups = new Set<number>();
+
+// Signals the command and everything it started, the group may already be gone
+function killGroup(pid: number, signal: NodeJS.Signals) {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Already exited
+  }
+}
+
+process.on("exit", () => {
+  for (const pid of runningGroups) killGroup(pid, "SIGKILL");
+});
+
+async function bash(command: string, cwd: string, config: BashConfig, timeoutSeconds?: number, signal?: AbortSignal) {
+  const timeout = Math.min(timeoutSeconds || config.timeoutSeconds, MAX_BASH_TIMEOUT_SECONDS);
+  const start = performance.now();
+
+  try {
+    // Detached runs the command in its own process group, so a timeout kills its children too.
+    // Passed as a variable: the Bun types do not list `detached` yet
+    const spawnOptions = {
+      cmd: ["bash", "-c", command],
+      cwd,
+      stdin: "ignore" as const,
+      stdout: "pipe" as const,
+      stderr: "pipe" as const,
+      detached: true,
+    };
+    const proc = Bun.spawn(spawnOptions);
+    runningGroups.add(proc.pid);
+
+    // stdout and stderr share one buffer so they stay in the order they were written
+    const output = createOutputBuffer(MAX_BASH_CAPTURE_CHARS);
+    const reading = Promise.all([
+      readStream(proc.stdout, output.append),
+      readStream(proc.stderr, output.append),
+    ]);
+
+    const stop = () => {
+      killGroup(proc.pid, "SIGTERM");
+      setTimeout(() => killGroup(proc.pid, "SIGKILL"), 2000).unref();
+    };
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, timeout * 1000);
+    signal?.addEventListener("abort", stop);
+
+    const exitCode = await proc.exited;
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", stop);
+    runningGroups.delete(proc.pid);
+    // Background processes started by the command can keep the pipes open
+    await Promise.race([reading, Bun.sleep(500)]);
+
+    const duration = `${((performance.now() - start) / 1000).toFixed(2)}s`;
+    const text = output.toString();
+    const lines = text.split("\n").filter((line) => line.trim()).length;
+    const stopped = signal?.aborted ?? false;
+    const status = timedOut
+      ? `Timed out after ${timeout}s, the command was killed`
+      : stopped
+        ? "Stopped by the user, the command was killed"
+        : `Exit code: ${exitCode}`;
+    const outcome = timedOut ? "timed out" : stopped ? "stopped" : `exit ${exitCode}`;
+
+    return {
+      aiOutput: `${text}${text && !text.endsWith("\n") ? "\n" : ""}[${status}, duration: ${duration}]`,
+      userOutput: `${timedOut || stopped || exitCode !== 0 ? "❌" : "⚡"} ${command} (${outcome}, ${lines} lines output, ${duration})`,
+    };
+  } catch (error) {
+    const errorMsg = `Error executing command: ${error}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+// Results returned by grep and glob without max_results
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_GREP_CONTEXT = 10;
+
+async function grep(pattern: string, directory: ResolvedPath, options: GrepOptions) {
+  try {
+    const result = await grepFiles(directory.absolute, pattern, options);
+    const unit = options.filesOnly ? "files" : "matches";
+
+    if (result.count === 0) {
+      return {
+        aiOutput: `No matches found for pattern: ${pattern}`,
+        userOutput: `🔍 Found 0 matches for "${pattern}" in ${directory.relative}`,
+      };
+    }
+
+    const note = result.truncated
+      ? `\n... stopped after ${options.maxResults} ${unit}, narrow the pattern or use include, or raise max_results`
+      : "";
+
+    return {
+      aiOutput: result.lines.join("\n") + note,
+      userOutput: `🔍 Found ${result.count}${result.truncated ? "+" : ""} ${unit} for "${pattern}" in ${directory.relative}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error searching pattern "${pattern}": ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+async function glob(pattern: string, directory: ResolvedPath, options: GlobOptions) {
+  try {
+    const result = await globFiles(directory.absolute, pattern, options);
+
+    if (result.count === 0) {
+      return {
+        aiOutput: `No files found matching pattern: ${pattern}`,
+        userOutput: `📁 Found 0 files matching "${pattern}" in ${directory.relative}`,
+      };
+    }
+
+    const note = result.truncated
+      ? `\n... stopped after ${options.maxResults} files, narrow the pattern or raise max_results`
+      : "";
+
+    return {
+      aiOutput: result.lines.join("\n") + note,
+      userOutput: `📁 Found ${result.count}${result.truncated ? "+" : ""} files matching "${pattern}" in ${directory.relative}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error searching files with pattern "${pattern}": ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+// Results returned by search without max_results
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SNIPPET_CHARS = 200;
+
+async function search(query: string, searchIndex: SearchIndex, maxResults: number) {
+  try {
+    const hits = await searchIndex.search(query, maxResults);
+
+    if (hits.length === 0) {
+      return {
+        aiOutput: `No results for "${query}". Try other words, or grep for an exact pattern.`,
+        userOutput: `🔎 No results for "${query}"`,
+      };
+    }
+
+    const results = hits.map((hit) => {
+      const snippet = hit.snippet.map(({ line, text }) => {
+        const cut = text.length > MAX_SNIPPET_CHARS ? `${text.slice(0, MAX_SNIPPET_CHARS)}...` : text;
+        return `  ${line}| ${cut}`;
+      });
+      return [`${hit.file}:${hit.startLine}-${hit.endLine}`, ...snippet].join("\n");
+    });
+
+    return {
+      aiOutput: `Best matches first:\n${results.join("\n")}`,
+      userOutput: `🔎 Found ${hits.length} results for "${query}"`,
+    };
+  } catch (error) {
+    const errorMsg = `Error searching "${query}": ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+async function outline(filename: ResolvedPath) {
+  try {
+    if (!isOutlineSupported(filename.absolute)) {
+      throw new Error("outline only supports TypeScript and JavaScript files, use readfile instead");
+    }
+
+    const entries = outlineSource(filename.absolute, await Bun.file(filename.absolute).text());
+    const exported = entries.filter((entry) => entry.exported).length;
+
+    if (entries.length === 0) {
+      return {
+        aiOutput: `${filename.relative} has no top-level declarations.`,
+        userOutput: `🧭 Outlined ${filename.relative} (no declarations)`,
+      };
+    }
+
+    return {
+      aiOutput: `Declarations of ${filename.relative} (start-end lines):\n${formatOutline(entries)}`,
+      userOutput: `🧭 Outlined ${filename.relative} (${entries.length} declarations, ${exported} exported)`,
+    };
+  } catch (error) {
+    const errorMsg = `Error outlining ${filename.relative}: ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+async function findSymbolTool(name: string, directory: ResolvedPath, maxResults: number) {
+  try {
+    const matches = await findSymbol(directory.absolute, name, maxResults);
+
+    if (matches.length === 0) {
+      return {
+        aiOutput: `No declaration found for ${name}. It may come from a dependency, try grep to find its uses.`,
+        userOutput: `🧭 No declaration of ${name} in ${directory.relative}`,
+      };
+    }
+
+    const lines = matches.map((match) => `${match.file}:${match.startLine}-${match.endLine}: ${match.signature}`);
+
+    return {
+      aiOutput: lines.join("\n"),
+      userOutput: `🧭 Found ${matches.length} declarations of ${name} in ${directory.relative}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error finding symbol ${name}: ${(error as Error).message}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+async function webFetch(url: string, prompt: string, summarizer: LanguageModel) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const html = await response.text();
+
+    const turndownService = new TurndownService({
+      headingStyle: 'atx',
+      hr: '---',
+      bulletListMarker: '*',
+      codeBlockStyle: 'fenced',
+      linkStyle: 'inlined'
+    });
+
+    turndownService.remove(['script', 'style']);
+    const markdown = turndownService.turndown(html);
+
+    const { text: summary } = await generateText({
+      model: summarizer,
+      messages: [
+        {
+          role: "system",
+          content: "You are a helpful assistant that summarizes web content based on specific prompts. Provide concise, relevant information."
+        },
+        {
+          role: "user",
+          content: `Here is the content of a webpage in markdown format:\n\n${markdown}\n\nPlease respond to this request: ${prompt}`
+        }
+      ],
+    });
+
+    return {
+      aiOutput: summary,
+      userOutput: `🌐 Fetched and summarized content from ${new URL(url).hostname}`,
+    };
+  } catch (error) {
+    const errorMsg = `Error fetching ${url}: ${error}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+async function listDirectory(path: ResolvedPath, depth: number = 3) {
+  try {
+    if (depth < 1) depth = 1;
+    if (depth > 10) depth = 10;
+
+    const treeString = await listTree(path.absolute, depth);
+    const lines = treeString.split("\n").length - 1;
+
+    return {
+      aiOutput: treeString,
+      userOutput: `📁 Listed ${path.relative} (depth: ${depth}, ${lines} items)`,
+    };
+  } catch (error) {
+    const errorMsg = `Error listing directory "${path.relative}": ${error}`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `❌ ${errorMsg}`,
+    };
+  }
+}
+
+export async function executeTool(tool: ToolType, context: ToolContext): Promise<ToolResult> {
+  const permission = await context.permissions.check(tool);
+
+  if (!permission.allowed) {
+    const errorMsg = `Permission denied for ${tool.name}: ${permission.reason}. Do not retry the same call, ask the user or try another approach.`;
+    return {
+      aiOutput: errorMsg,
+      userOutput: `🚫 ${tool.name} denied: ${permission.reason}`,
+    };
+  }
+
+  const result = await runToolInWorkspace(tool, context);
+  const { output, spilledTo } = await applyOutputPolicy(tool.name, result.aiOutput, context.output, context.scratch);
+
+  return {
+    aiOutput: output,
+    userOutput: spilledTo ? `${result.userOutput}\n📦 Long output cut for the model, full output in ${spilledTo}` : result.userOutput,
+  };
+}
+
+async function runToolInWorkspace(tool: ToolType, context: ToolContext): Promise<ToolResult> {
+  try {
+    return await runTool(tool, context);
+  } catch (error) {
+    if (!(error instanceof PathOutsideWorkspaceError)) throw error;
+
+    return {
+      aiOutput: error.message,
+      userOutput: `🚫 ${tool.name}: ${error.path} is outside the workspace`,
+    };
+  }
+}
+
+async function runTool(tool: ToolType, context: ToolContext): Promise<ToolResult> {
+  const { workspace } = context;
+
+  if (tool.name === "readfile") {
+    return await readFile(
+      await workspace.resolve(tool.params.file),
+      context.reads,
+      parseInt(tool.params.offset),
+      parseInt(tool.params.limit)
+    );
+  }
+
+  if (tool.name === "writefile") {
+    return await writeFile(
+      await workspace.resolve(tool.params.file),
+      tool.params.content,
+      context.checkpoints,
+      context.reads
+    );
+  }
+
+  if (tool.name === "edit") {
+    return await editFile(
+      await workspace.resolve(tool.params.file),
+      tool.params.old,
+      tool.params.new,
+      tool.params.replace_all === "true",
+      context.checkpoints,
+      context.reads
+    );
+  }
+
+  if (tool.name === "apply_patch") {
+    return await applyPatch(tool.params.patch, workspace, context.checkpoints, context.reads);
+  }
+
+  if (tool.name === "bash") {
+    return await bash(
+      tool.params.command,
+      workspace.root,
+      context.bash,
+      parseInt(tool.params.timeout),
+      context.signal
+    );
+  }
+
+  if (tool.name === "get_tweet") {
+    return getTweet(tool.params.tweet_id);
+  }
+
+  if (tool.name === "grep") {
+    return await grep(tool.params.pattern, await workspace.resolve(tool.params.dir ?? "."), {
+      ignoreCase: tool.params.ignore_case === "true",
+      context: Math.min(parseInt(tool.params.context) || 0, MAX_GREP_CONTEXT),
+      include: tool.params.include,
+      exclude: tool.params.exclude,
+      maxResults: parseInt(tool.params.max_results) || DEFAULT_MAX_RESULTS,
+      filesOnly: tool.params.files_only === "true",
+    });
+  }
+
+  if (tool.name === "glob") {
+    return await glob(tool.params.pattern, await workspace.resolve(tool.params.dir ?? "."), {
+      exclude: tool.params.exclude,
+      maxResults: parseInt(tool.params.max_results) || DEFAULT_MAX_RESULTS,
+    });
+  }
+
+  if (tool.name === "search") {
+    return await search(
+      tool.params.query,
+      context.searchIndex,
+      parseInt(tool.params.max_results) || DEFAULT_SEARCH_RESULTS
+    );
+  }
+
+  if (tool.name === "outline") {
+    return await outline(await workspace.resolve(tool.params.file));
+  }
+
+  if (tool.name === "find_symbol") {
+    return await findSymbolTool(
+      tool.params.name,
+      await workspace.resolve(tool.params.dir ?? "."),
+      parseInt(tool.params.max_results) || DEFAULT_MAX_RESULTS
+    );
+  }
+
+  if (tool.name === "webfetch") {
+    return await webFetch(tool.params.url, tool.params.prompt, context.summarizer);
+  }
+
+  if (tool.name === "ls") {
+    return await listDirectory(
+      await workspace.resolve(tool.params.path ?? "."),
+      parseInt(tool.params.depth) || 3
+    );
+  }
+
+
+  const errorMsg = `Unknown tool: ${tool.name}`;
+  return {
+    aiOutput: errorMsg,
+    userOutput: `❌ ${errorMsg}`,
+  };
+}
+
+export const toolTagSpecs: Record<string, ToolTagSpec> = {
+  readfile: { required: ["file"] },
+  writefile: { required: ["file", "content"], body: "content" },
+  edit: { required: ["file", "old", "new"], children: ["old", "new"] },
+  apply_patch: { required: ["patch"], body: "patch" },
+  bash: { required: ["command"] },
+  get_tweet: { required: ["tweet_id"] },
+  grep: { required: ["pattern"] },
+  glob: { required: ["pattern"] },
+  search: { required: ["query"] },
+  outline: { required: ["file"] },
+  find_symbol: { required: ["name"] },
+  webfetch: { required: ["url", "prompt"] },
+  ls: {},
+};
+
+export function parseTools(text: string) {
+  const { tools, errors } = parseToolTags(text, toolTagSpecs);
+
+  for (const tool of tools) {
+    if (tool.name === "writefile") {
+      tool.params.content = tool.body ?? unescapeContent(tool.params.content);
+    }
+
+    // Edits match source code, where "\n" in a string literal must stay two characters
+    if (tool.name === "edit") {
+      tool.params.old = tool.children?.old ?? tool.params.old;
+      tool.params.new = tool.children?.new ?? tool.params.new;
+    }
+
+    if (tool.name === "apply_patch") {
+      tool.params.patch = tool.body ?? unescapeContent(tool.params.patch);
+    }
+  }
+
+  return { tools, errors };
+}
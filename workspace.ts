@@ -0,0 +1,84 @@
+import { realpathSync } from "node:fs";
+import { realpath } from "node:fs/promises";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+export type ResolvedPath = {
+  // Real path, symlinks followed
+  absolute: string;
+  // Relative to the workspace root when inside it, for display
+  relative: string;
+};
+
+export type Workspace = {
+  root: string;
+  allowedDirs: string[];
+  resolve: (path: string) => Promise<ResolvedPath>;
+};
+
+export class PathOutsideWorkspaceError extends Error {
+  constructor(public path: string, root: string) {
+    super(
+      `Path "${path}" is outside the workspace (${root}). Only files inside the workspace or its allowed directories can be accessed.`
+    );
+  }
+}
+
+function isInside(path: string, dir: string) {
+  const rel = relative(dir, path);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+// Files that do not exist yet are resolved through their closest existing parent
+async function realpathOfNearest(path: string) {
+  const missing: string[] = [];
+  let current = path;
+
+  while (true) {
+    try {
+      return join(await realpath(current), ...missing.reverse());
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw error;
+    }
+
+    const parent = dirname(current);
+    if (parent === current) return path;
+
+    missing.push(basename(current));
+    current = parent;
+  }
+}
+
+// Allowed directories can be created later, like the scratch directory of the agent
+function realpathOfDir(dir: string): string {
+  try {
+    return realpathSync(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return join(realpathOfDir(dirname(dir)), basename(dir));
+  }
+}
+
+export function createWorkspace(root: string, allowedDirs: string[] = []): Workspace {
+  const realRoot = realpathSync(resolve(root));
+  const realAllowedDirs = allowedDirs.map((dir) => realpathOfDir(resolve(realRoot, dir)));
+
+  return {
+    root: realRoot,
+    allowedDirs: realAllowedDirs,
+
+    async resolve(path: string) {
+      const absolute = await realpathOfNearest(resolve(realRoot, path));
+
+      if (isInside(absolute, realRoot)) {
+        return { absolute, relative: relative(realRoot, absolute) || "." };
+      }
+
+      if (realAllowedDirs.some((dir) => isInside(absolute, dir))) {
+        return { absolute, relative: absolute };
+      }
+
+      throw new PathOutsideWorkspaceError(path, realRoot);
+    },
+  };
+}